@@ -0,0 +1,513 @@
+import crypto from "crypto";
+import express, { Request, Response } from "express";
+import type { MessageStore, SearchStore, SessionStore } from "./store";
+import {
+  AttachmentInfo,
+  PersonaInfo,
+  SendOutcome,
+  ServerToClientEvents,
+  SessionItem,
+  StreamSink,
+  ToolInfo,
+} from "./types";
+import { getBranch } from "./branches";
+import type { ApprovalAnswer } from "./approvals";
+import {
+  ATTACHMENT_MAX_BYTES,
+  AttachmentStore,
+  checkAttachment,
+} from "./attachments";
+import {
+  collectSessions,
+  EXPORT_MIME,
+  formatExport,
+  isExportFormat,
+  parseImport,
+  SessionExport,
+} from "./transfer";
+import { sumUsage } from "./usage";
+
+// Operations shared with the Socket.IO handlers (defined in server.ts)
+export interface ApiDeps {
+  sessions: SessionStore;
+  messages: MessageStore;
+  search: SearchStore;
+  attachments: AttachmentStore;
+  createSession: (
+    userId: string,
+    sessionId: string,
+    title?: string,
+    personaId?: string
+  ) => Promise<SessionItem | null>;
+  deleteSession: (userId: string, sessionId: string) => Promise<boolean>;
+  sendUserMessage: (
+    userId: string,
+    sessionId: string,
+    text: string,
+    files: AttachmentInfo[],
+    parentId?: string,
+    sink?: StreamSink
+  ) => Promise<SendOutcome | null>;
+  importSessions: (
+    userId: string,
+    exports: SessionExport[]
+  ) => Promise<SessionItem[]>;
+  // Why the answer was refused, or null once applied (or relayed)
+  answerApproval: (
+    userId: string,
+    sessionId: string,
+    toolCallId: string,
+    answer: ApprovalAnswer
+  ) => Promise<string | null>;
+  listTools: () => ToolInfo[];
+  setSessionTools: (
+    userId: string,
+    sessionId: string,
+    tools: unknown
+  ) => Promise<SessionItem | null>;
+  listPersonas: () => PersonaInfo[];
+  // null when the persona id is unknown
+  setSessionPersona: (
+    userId: string,
+    sessionId: string,
+    personaId: unknown
+  ) => Promise<SessionItem | null>;
+}
+
+const PAGE_DEFAULT = 50;
+const PAGE_MAX = 200;
+const SEARCH_LIMIT = 20;
+// Imports arrive as one request body
+const IMPORT_MAX_BYTES = process.env.IMPORT_MAX_BYTES || "20mb";
+
+// Log and answer 500 instead of leaving the request hanging
+function safe(fn: (req: Request, res: Response) => Promise<void>) {
+  return (req: Request, res: Response): void => {
+    fn(req, res).catch((err) => {
+      // eslint-disable-next-line no-console
+      console.error("API handler error:", err);
+      if (!res.headersSent) res.status(500).json({ error: "internal error" });
+      else res.end();
+    });
+  };
+}
+
+function writeEvent(res: Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// A retry announcement carries `retryInMs`; the final error does not
+type AIErrorPayload = Parameters<ServerToClientEvents["ai_error"]>[0];
+
+// ---------- Express: /api (mounted behind requireAuth) ----------
+export function createApiRouter(deps: ApiDeps): express.Router {
+  const router = express.Router();
+
+  // Upload a file as the raw body (any Content-Type, e.g. a .json file), so
+  // this comes before the JSON/text parsers. ?name= is the file name.
+  const rawUpload = express.raw({
+    type: () => true,
+    limit: ATTACHMENT_MAX_BYTES,
+  });
+  router.post(
+    "/attachments",
+    (req, res, next) => {
+      rawUpload(req, res, (err?: { status?: number }) => {
+        if (!err) return next();
+        const tooLarge = err.status === 413;
+        res.status(tooLarge ? 413 : 400).json({
+          error: tooLarge ? "file too large" : "invalid upload",
+        });
+      });
+    },
+    safe(async (req, res) => {
+      const data = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      const mimeType = (req.headers["content-type"] || "")
+        .split(";")[0]
+        .trim()
+        .toLowerCase();
+      const error = checkAttachment(data, mimeType);
+      if (error) {
+        res.status(400).json({ error });
+        return;
+      }
+      const name = typeof req.query.name === "string" ? req.query.name : "";
+      const file = await deps.attachments.save(
+        res.locals.userId,
+        data,
+        name,
+        mimeType
+      );
+      res.status(201).json(file);
+    })
+  );
+
+  router.use(express.json({ limit: IMPORT_MAX_BYTES }));
+  // JSONL (or JSON sent as plain text) for /import
+  router.use(
+    express.text({
+      type: ["text/*", "application/x-ndjson", "application/jsonl"],
+      limit: IMPORT_MAX_BYTES,
+    })
+  );
+
+  // The caller's session, or a 404 already sent
+  async function ownSession(
+    req: Request,
+    res: Response
+  ): Promise<SessionItem | null> {
+    const session = await deps.sessions.get(String(req.params.id));
+    if (!session || session.userId !== res.locals.userId) {
+      res.status(404).json({ error: "session not found" });
+      return null;
+    }
+    return session;
+  }
+
+  router.get("/sessions", safe(async (_req, res) => {
+    res.json(await deps.sessions.listByUser(res.locals.userId));
+  }));
+
+  router.post("/sessions", safe(async (req, res) => {
+    const { id, title, personaId } = (req.body || {}) as {
+      id?: string;
+      title?: string;
+      personaId?: string;
+    };
+    const sessionId = typeof id === "string" && id ? id : crypto.randomUUID();
+    const item = await deps.createSession(
+      res.locals.userId,
+      sessionId,
+      typeof title === "string" ? title : undefined,
+      typeof personaId === "string" ? personaId : undefined
+    );
+    if (!item) {
+      res.status(409).json({ error: "session id in use" });
+      return;
+    }
+    res.status(201).json(item);
+  }));
+
+  router.get("/sessions/:id", safe(async (req, res) => {
+    const session = await ownSession(req, res);
+    if (session) res.json(session);
+  }));
+
+  router.delete("/sessions/:id", safe(async (req, res) => {
+    const deleted = await deps.deleteSession(
+      res.locals.userId,
+      String(req.params.id)
+    );
+    if (!deleted) {
+      res.status(404).json({ error: "session not found" });
+      return;
+    }
+    res.status(204).end();
+  }));
+
+  router.get("/tools", (_req, res) => {
+    res.json(deps.listTools());
+  });
+
+  // Which loaded tools the session may use: { tools: string[] }
+  router.put("/sessions/:id/tools", safe(async (req, res) => {
+    const session = await ownSession(req, res);
+    if (!session) return;
+    const { tools } = (req.body || {}) as { tools?: unknown };
+    if (!Array.isArray(tools)) {
+      res.status(400).json({ error: "tools must be an array of tool names" });
+      return;
+    }
+    res.json(await deps.setSessionTools(session.userId, session.id, tools));
+  }));
+
+  // A file uploaded by the caller; the message record has its type
+  router.get("/attachments/:id", safe(async (req, res) => {
+    const data = await deps.attachments.read(
+      res.locals.userId,
+      String(req.params.id)
+    );
+    if (!data) {
+      res.status(404).json({ error: "attachment not found" });
+      return;
+    }
+    res.set({
+      "Content-Type": "application/octet-stream",
+      "X-Content-Type-Options": "nosniff",
+      "Cache-Control": "private, max-age=31536000, immutable", // id = content hash
+    });
+    res.send(data);
+  }));
+
+  router.get("/personas", (_req, res) => {
+    res.json(deps.listPersonas());
+  });
+
+  // Switch the assistant persona: { personaId: string }
+  router.put("/sessions/:id/persona", safe(async (req, res) => {
+    const session = await ownSession(req, res);
+    if (!session) return;
+    const { personaId } = (req.body || {}) as { personaId?: unknown };
+    const updated = await deps.setSessionPersona(
+      session.userId,
+      session.id,
+      personaId
+    );
+    if (!updated) {
+      res.status(400).json({ error: "unknown persona" });
+      return;
+    }
+    res.json(updated);
+  }));
+
+  // Active branch, oldest first. `limit` messages ending just before the
+  // `before` message id (or at the newest); `nextBefore` fetches older ones.
+  router.get("/sessions/:id/messages", safe(async (req, res) => {
+    const session = await ownSession(req, res);
+    if (!session) return;
+    const limit = Math.min(
+      Math.max(Number(req.query.limit) || PAGE_DEFAULT, 1),
+      PAGE_MAX
+    );
+    const branch = getBranch(
+      await deps.messages.listBySession(session.userId, session.id),
+      session.activeLeafId
+    );
+    const before =
+      typeof req.query.before === "string"
+        ? branch.messages.findIndex((m) => m.id === req.query.before)
+        : -1;
+    const end = before >= 0 ? before : branch.messages.length;
+    const start = Math.max(end - limit, 0);
+    const page = branch.messages.slice(start, end);
+    const siblings: Record<string, string[]> = {};
+    for (const m of page) {
+      if (branch.siblings[m.id]) siblings[m.id] = branch.siblings[m.id];
+    }
+    res.json({
+      messages: page,
+      siblings,
+      nextBefore: start > 0 ? page[0].id : null,
+    });
+  }));
+
+  // Send a message and stream the reply as Server-Sent Events, using the
+  // socket event names (message_added, ai_started, ai_chunk, ai_reasoning,
+  // ai_tool_input, ai_tool_call, ai_tool_result, ai_tool_approval_request,
+  // ai_tool_approval_result, ai_source, ai_step, ai_complete, ai_error). A
+  // message queued behind a running reply first gets `ai_queued`; one over a
+  // limit gets 429. A failed reply ends with an ai_error that has no
+  // `retryInMs`. Generation continues if the client leaves.
+  router.post("/sessions/:id/messages", safe(async (req, res) => {
+    const session = await ownSession(req, res);
+    if (!session) return;
+    const { text, parentId, attachments } = (req.body || {}) as {
+      text?: string;
+      parentId?: string;
+      attachments?: unknown;
+    };
+    const files = await deps.attachments.resolve(session.userId, attachments);
+    if (typeof files === "string") {
+      res.status(400).json({ error: files });
+      return;
+    }
+    const hasText = typeof text === "string" && !!text.trim();
+    if (!hasText && files.length === 0) {
+      res.status(400).json({ error: "text required" });
+      return;
+    }
+
+    let open = true;
+    let finished = false; // ai_complete or a final ai_error was sent
+    res.on("close", () => {
+      open = false;
+    });
+    // Headers go out with the first event, so a rejection can still be a 429
+    function send(event: string, data: unknown): boolean {
+      if (!open) return false;
+      if (!res.headersSent) {
+        res.writeHead(200, {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          Connection: "keep-alive",
+        });
+      }
+      writeEvent(res, event, data);
+      return true;
+    }
+    const sink: StreamSink = (event, payload) => {
+      const final =
+        event === "ai_error" && !(payload as AIErrorPayload).retryInMs;
+      if (event === "ai_complete" || final) finished = true;
+      return send(event, payload);
+    };
+
+    const sent = await deps.sendUserMessage(
+      session.userId,
+      session.id,
+      hasText ? text! : "",
+      files,
+      typeof parentId === "string" ? parentId : undefined,
+      sink
+    );
+    if (!sent) return; // ownership already checked
+    if (sent.status === "rejected") {
+      const { retryAfterMs } = sent.hit;
+      if (retryAfterMs) {
+        res.setHeader("Retry-After", Math.ceil(retryAfterMs / 1000));
+      }
+      res.status(429).json({ error: sent.hit.message, ...sent.hit });
+      return;
+    }
+    if (sent.status === "queued") {
+      send("ai_queued", { sessionId: session.id, id: sent.id });
+    }
+    await sent.reply;
+    if (!open) return;
+    if (!finished) {
+      writeEvent(res, "error", { error: "stream failed" });
+    }
+    res.end();
+  }));
+
+  // Answer a tool call paused for approval (announced on the SSE stream as
+  // ai_tool_approval_request): { decision: 'approve' | 'deny', input?, reason? }
+  router.post("/sessions/:id/approvals/:toolCallId", safe(async (req, res) => {
+    const session = await ownSession(req, res);
+    if (!session) return;
+    const { decision, input, reason } = (req.body || {}) as ApprovalAnswer;
+    if (decision !== "approve" && decision !== "deny") {
+      res.status(400).json({ error: "decision must be approve or deny" });
+      return;
+    }
+    const refused = await deps.answerApproval(
+      session.userId,
+      session.id,
+      String(req.params.toolCallId),
+      {
+        decision,
+        input,
+        reason: typeof reason === "string" ? reason : undefined,
+      }
+    );
+    if (refused) {
+      res.status(409).json({ error: refused });
+      return;
+    }
+    res.status(204).end();
+  }));
+
+  // Ranked full-text search: ?q=<query>&limit=<sessions>
+  router.get("/search", safe(async (req, res) => {
+    const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+    if (!q) {
+      res.status(400).json({ error: "q required" });
+      return;
+    }
+    const limit = Math.min(
+      Math.max(Number(req.query.limit) || SEARCH_LIMIT, 1),
+      SEARCH_LIMIT
+    );
+    const results = await deps.search.search(
+      res.locals.userId,
+      q.slice(0, 200),
+      limit
+    );
+    res.json({ query: q, results });
+  }));
+
+  // Tokens, cost and latency of the caller's replies: totals plus one entry
+  // per session (most recently updated first)
+  router.get("/usage", safe(async (_req, res) => {
+    const all = await collectSessions(
+      deps.sessions,
+      deps.messages,
+      res.locals.userId
+    );
+    res.json({
+      total: sumUsage(all.flatMap((e) => e.messages)),
+      sessions: all.map(({ session, messages }) => ({
+        sessionId: session.id,
+        title: session.title,
+        ...sumUsage(messages),
+      })),
+    });
+  }));
+
+  // One session's totals and the usage of each reply in it (all branches)
+  router.get("/sessions/:id/usage", safe(async (req, res) => {
+    const session = await ownSession(req, res);
+    if (!session) return;
+    const messages = await deps.messages.listBySession(
+      session.userId,
+      session.id
+    );
+    res.json({
+      sessionId: session.id,
+      total: sumUsage(messages),
+      replies: messages.flatMap((m) =>
+        m.usage
+          ? [
+              {
+                messageId: m.id,
+                timestamp: m.timestamp,
+                status: m.message.type === "error" ? "error" : m.status,
+                usage: m.usage,
+              },
+            ]
+          : []
+      ),
+    });
+  }));
+
+  // Export as Markdown / JSON / JSONL download: one session or all of them
+  async function sendExport(
+    req: Request,
+    res: Response,
+    sessionIds?: string[]
+  ): Promise<void> {
+    const format = req.query.format || "json";
+    if (!isExportFormat(format)) {
+      res.status(400).json({ error: "format must be md, json or jsonl" });
+      return;
+    }
+    const exports = await collectSessions(
+      deps.sessions,
+      deps.messages,
+      res.locals.userId,
+      sessionIds
+    );
+    const name = sessionIds ? `session-${sessionIds[0]}` : "sessions";
+    res.setHeader("Content-Type", EXPORT_MIME[format]);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${name}.${format}"`
+    );
+    res.send(formatExport(exports, format));
+  }
+
+  router.get("/export", safe(async (req, res) => {
+    await sendExport(req, res);
+  }));
+
+  router.get("/sessions/:id/export", safe(async (req, res) => {
+    const session = await ownSession(req, res);
+    if (session) await sendExport(req, res, [session.id]);
+  }));
+
+  // Import a JSON or JSONL export as new sessions of the caller
+  router.post("/import", safe(async (req, res) => {
+    let exports: SessionExport[];
+    try {
+      exports = parseImport(req.body);
+    } catch (err) {
+      const reason = (err as Error).message;
+      res.status(400).json({ error: `invalid import: ${reason}` });
+      return;
+    }
+    const sessions = await deps.importSessions(res.locals.userId, exports);
+    res.status(201).json({ sessions });
+  }));
+
+  return router;
+}
@@ -0,0 +1,186 @@
+import crypto from "crypto";
+import { createTool } from "@voltagent/core";
+import type { Tool } from "@voltagent/core";
+import type { z } from "zod";
+import { ApprovalStatus, Message } from "./types";
+
+// ---------- Human-in-the-loop tool approval ----------
+// A tool marked `requiresApproval` is wrapped so its execute first waits for
+// the user's decision. The model stream is paused meanwhile (the SDK awaits
+// the tool); a denial reaches the model as a tool error. Waiters live in the
+// memory of the instance running the stream; 0 disables the timeout.
+export const APPROVAL_TIMEOUT_MS = Number(
+  process.env.TOOL_APPROVAL_TIMEOUT_MS ?? 60 * 60 * 1000
+);
+
+export interface ApprovalRequest {
+  toolCallId: string;
+  name: string;
+  input: unknown;
+}
+
+export interface ApprovalDecision {
+  status: Exclude<ApprovalStatus, "pending">;
+  input: unknown; // what the tool runs with (edited or as requested)
+  reason?: string;
+}
+
+// What the user sent: approve (optionally with edited arguments) or deny
+export interface ApprovalAnswer {
+  decision: "approve" | "deny";
+  input?: unknown;
+  reason?: string;
+}
+
+interface Waiter {
+  userId: string;
+  sessionId: string;
+  request: ApprovalRequest;
+  validate: (input: unknown) => string | null; // error message if invalid
+  settle: (decision: ApprovalDecision) => void;
+}
+
+const DENIED_MESSAGES: Record<ApprovalDecision["status"], string> = {
+  approved: "",
+  edited: "",
+  denied: "用户拒绝执行该工具",
+  expired: "等待用户批准超时",
+  cancelled: "回复已停止，工具未执行",
+};
+
+export function createApprovalGate(timeoutMs: number = APPROVAL_TIMEOUT_MS) {
+  const waiters = new Map<string, Waiter>(); // toolCallId -> waiter
+
+  /** Wait for `answer` (or timeout / abort) on a tool call. */
+  function wait(
+    userId: string,
+    sessionId: string,
+    request: ApprovalRequest,
+    validate: Waiter["validate"],
+    signal?: AbortSignal
+  ): Promise<ApprovalDecision> {
+    return new Promise((resolve) => {
+      let timer: NodeJS.Timeout | undefined;
+      const settle = (decision: ApprovalDecision) => {
+        if (waiters.get(request.toolCallId)?.settle !== settle) return;
+        waiters.delete(request.toolCallId);
+        if (timer) clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        resolve(decision);
+      };
+      const onAbort = () => settle({ status: "cancelled", input: request.input });
+      waiters.set(request.toolCallId, {
+        userId,
+        sessionId,
+        request,
+        validate,
+        settle,
+      });
+      if (signal?.aborted) return onAbort();
+      signal?.addEventListener("abort", onAbort, { once: true });
+      if (timeoutMs > 0) {
+        timer = setTimeout(
+          () => settle({ status: "expired", input: request.input }),
+          timeoutMs
+        );
+      }
+    });
+  }
+
+  /**
+   * Settle a waiting call owned by `userId` in `sessionId`. Returns an error
+   * message when the edited arguments are invalid, null when settled, and
+   * undefined when this instance has no such waiter.
+   */
+  function answer(
+    userId: string,
+    sessionId: string,
+    toolCallId: string,
+    { decision, input, reason }: ApprovalAnswer
+  ): string | null | undefined {
+    const waiter = waiters.get(toolCallId);
+    if (!waiter || waiter.userId !== userId || waiter.sessionId !== sessionId) {
+      return undefined;
+    }
+    if (decision === "deny") {
+      waiter.settle({ status: "denied", input: waiter.request.input, reason });
+      return null;
+    }
+    if (input === undefined) {
+      waiter.settle({ status: "approved", input: waiter.request.input });
+      return null;
+    }
+    const error = waiter.validate(input);
+    if (error) return error;
+    const edited =
+      JSON.stringify(input) !== JSON.stringify(waiter.request.input);
+    waiter.settle({ status: edited ? "edited" : "approved", input });
+    return null;
+  }
+
+  return { wait, answer };
+}
+
+/**
+ * The same tool, but `ask` decides before each run. Denied, expired and
+ * cancelled calls throw, which the model sees as the tool's error.
+ */
+export function withApproval(
+  tool: Tool<any, any>,
+  ask: (
+    request: ApprovalRequest,
+    validate: (input: unknown) => string | null,
+    signal?: AbortSignal
+  ) => Promise<ApprovalDecision>
+): Tool<any, any> {
+  const validate = (input: unknown): string | null => {
+    const parsed = tool.parameters.safeParse(input);
+    if (parsed.success) return null;
+    const issues = parsed.error.issues.map(
+      (i: z.ZodIssue) => `${i.path.join(".") || "(root)"} ${i.message}`
+    );
+    return `参数无效：${issues.join("；")}`;
+  };
+  return createTool({
+    name: tool.name,
+    description: tool.description,
+    parameters: tool.parameters,
+    outputSchema: tool.outputSchema,
+    tags: tool.tags,
+    providerOptions: tool.providerOptions,
+    toModelOutput: tool.toModelOutput,
+    execute: async (args: unknown, options) => {
+      const signal = options?.toolContext?.abortSignal;
+      const decision = await ask(
+        {
+          toolCallId: options?.toolContext?.callId ?? crypto.randomUUID(),
+          name: tool.name,
+          input: args,
+        },
+        validate,
+        signal
+      );
+      if (decision.status !== "approved" && decision.status !== "edited") {
+        const reason = decision.reason ? `：${decision.reason}` : "";
+        throw new Error(DENIED_MESSAGES[decision.status] + reason);
+      }
+      return tool.execute!(decision.input, options);
+    },
+  });
+}
+
+/** Stored approval requests that have no decision record yet. */
+export function pendingApprovals(messages: Message[]): Message[] {
+  const decided = new Set<string>();
+  for (const m of messages) {
+    if (m.message.type === "tool_approval" && m.message.status !== "pending") {
+      decided.add(m.message.toolCallId);
+    }
+  }
+  return messages.filter(
+    (m) =>
+      m.message.type === "tool_approval" &&
+      m.message.status === "pending" &&
+      !decided.has(m.message.toolCallId)
+  );
+}
@@ -0,0 +1,208 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { DATA_DIR } from "./store";
+import { AttachmentBody, AttachmentInfo, Message } from "./types";
+
+// ---------- Message attachments ----------
+// Uploaded files live under data/attachments/<userId>/<sha-256 of the bytes>,
+// so the same file sent twice is stored once. A message references them by
+// id through `attachment` records (see types.ts); a file is removed once no
+// session of its owner references it any more.
+export const ATTACHMENTS_DIR =
+  process.env.ATTACHMENTS_DIR || path.join(DATA_DIR, "attachments");
+export const ATTACHMENT_MAX_BYTES =
+  Number(process.env.ATTACHMENT_MAX_BYTES) || 5 * 1024 * 1024;
+export const ATTACHMENT_MAX_COUNT =
+  Number(process.env.ATTACHMENT_MAX_COUNT) || 5; // per message
+
+// Images go to the model as image parts, the rest as text
+const PNG_SIGNATURE = Buffer.from("89504e470d0a1a0a", "hex");
+const IMAGE_SIGNATURES: Record<string, (b: Buffer) => boolean> = {
+  "image/png": (b) => b.subarray(0, 8).equals(PNG_SIGNATURE),
+  "image/jpeg": (b) => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff,
+  "image/gif": (b) => b.subarray(0, 4).toString("latin1") === "GIF8",
+  "image/webp": (b) =>
+    b.subarray(0, 4).toString("latin1") === "RIFF" &&
+    b.subarray(8, 12).toString("latin1") === "WEBP",
+};
+const TEXT_TYPES = new Set([
+  "text/plain",
+  "text/markdown",
+  "text/csv",
+  "application/json",
+]);
+
+export const ATTACHMENT_TYPES = [
+  ...Object.keys(IMAGE_SIGNATURES),
+  ...TEXT_TYPES,
+];
+
+export function isImage(mimeType: string): boolean {
+  return mimeType in IMAGE_SIGNATURES;
+}
+
+const ID_PATTERN = /^[a-f0-9]{64}$/;
+
+/** Why `data` can't be attached as `mimeType`, or null if it can. */
+export function checkAttachment(data: Buffer, mimeType: string): string | null {
+  if (data.length === 0) return "文件为空";
+  if (data.length > ATTACHMENT_MAX_BYTES) {
+    return `文件超过 ${Math.floor(ATTACHMENT_MAX_BYTES / 1024 / 1024)} MB 上限`;
+  }
+  const signature = IMAGE_SIGNATURES[mimeType];
+  if (signature) return signature(data) ? null : "图片内容与类型不符";
+  if (!TEXT_TYPES.has(mimeType)) {
+    return `不支持的文件类型：${mimeType || "未知"}`;
+  }
+  // Text must decode as UTF-8 without NULs (i.e. not a renamed binary)
+  if (data.includes(0) || !isUtf8(data)) return "文本文件须为 UTF-8 编码";
+  return null;
+}
+
+function isUtf8(data: Buffer): boolean {
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(data);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export interface AttachmentStore {
+  /** Store checked bytes; the stored file's info. */
+  save(
+    userId: string,
+    data: Buffer,
+    name: string,
+    mimeType: string
+  ): Promise<AttachmentInfo>;
+  /**
+   * The user's files a message refers to (as sent by a client), or why the
+   * references are invalid.
+   */
+  resolve(userId: string, refs: unknown): Promise<AttachmentInfo[] | string>;
+  read(userId: string, id: string): Promise<Buffer | null>;
+  readSync(userId: string, id: string): Buffer | null;
+  /** Delete the user's files in `ids` that `remaining` no longer references. */
+  prune(userId: string, ids: string[], remaining: Message[]): Promise<void>;
+}
+
+/** Attachment ids referenced by `messages`. */
+export function attachmentIds(messages: Message[]): string[] {
+  return messages.flatMap((m) =>
+    m.message.type === "attachment" ? [m.message.attachmentId] : []
+  );
+}
+
+/** Files sent with the user message `messageId`. */
+export function attachedFiles(
+  messages: Message[],
+  messageId: string
+): AttachmentInfo[] {
+  return messages.flatMap((m) =>
+    m.message.type === "attachment" && m.parentId === messageId
+      ? [
+          {
+            id: m.message.attachmentId,
+            name: m.message.content,
+            mimeType: m.message.mimeType,
+            size: m.message.size,
+          },
+        ]
+      : []
+  );
+}
+
+/** The record body for an attached file. */
+export function attachmentBody(info: AttachmentInfo): AttachmentBody {
+  return {
+    type: "attachment",
+    content: info.name,
+    attachmentId: info.id,
+    mimeType: info.mimeType,
+    size: info.size,
+  };
+}
+
+export function createAttachmentStore(
+  dir: string = ATTACHMENTS_DIR
+): AttachmentStore {
+  const fileOf = (userId: string, id: string): string | null =>
+    ID_PATTERN.test(id) ? path.join(dir, encodeURIComponent(userId), id) : null;
+
+  async function resolveOne(
+    userId: string,
+    ref: Partial<AttachmentInfo> | undefined
+  ): Promise<AttachmentInfo | null> {
+    if (!ref || typeof ref.id !== "string") return null;
+    if (typeof ref.mimeType !== "string") return null;
+    if (!ATTACHMENT_TYPES.includes(ref.mimeType)) return null;
+    const file = fileOf(userId, ref.id);
+    const data = file ? await fs.promises.readFile(file).catch(() => null) : null;
+    if (!data) return null;
+    // The type comes from the client again: the bytes must still match it
+    if (checkAttachment(data, ref.mimeType)) return null;
+    const name = typeof ref.name === "string" && ref.name ? ref.name : ref.id;
+    return {
+      id: ref.id,
+      name: name.slice(0, 200),
+      mimeType: ref.mimeType,
+      size: data.length,
+    };
+  }
+
+  return {
+    async save(userId, data, name, mimeType) {
+      const id = crypto.createHash("sha256").update(data).digest("hex");
+      const file = fileOf(userId, id)!;
+      if (!fs.existsSync(file)) {
+        await fs.promises.mkdir(path.dirname(file), { recursive: true });
+        // Write then rename so a reader never sees half a file
+        const tmp = `${file}.${process.pid}.tmp`;
+        await fs.promises.writeFile(tmp, data);
+        await fs.promises.rename(tmp, file);
+      }
+      return {
+        id,
+        name: name.slice(0, 200) || id,
+        mimeType,
+        size: data.length,
+      };
+    },
+    async resolve(userId, refs) {
+      if (refs === undefined) return [];
+      if (!Array.isArray(refs)) return "attachments 须为数组";
+      if (refs.length > ATTACHMENT_MAX_COUNT) {
+        return `每条消息最多 ${ATTACHMENT_MAX_COUNT} 个附件`;
+      }
+      const files: AttachmentInfo[] = [];
+      for (const ref of refs) {
+        const file = await resolveOne(userId, ref);
+        if (!file) return "附件不存在或类型不支持，请重新上传";
+        files.push(file);
+      }
+      return files;
+    },
+    async read(userId, id) {
+      const file = fileOf(userId, id);
+      return file ? fs.promises.readFile(file).catch(() => null) : null;
+    },
+    readSync(userId, id) {
+      const file = fileOf(userId, id);
+      try {
+        return file ? fs.readFileSync(file) : null;
+      } catch {
+        return null;
+      }
+    },
+    async prune(userId, ids, remaining) {
+      const kept = new Set(attachmentIds(remaining));
+      for (const id of new Set(ids)) {
+        const file = fileOf(userId, id);
+        if (!file || kept.has(id)) continue;
+        await fs.promises.rm(file, { force: true });
+      }
+    },
+  };
+}
@@ -0,0 +1,137 @@
+import crypto from "crypto";
+import express, { NextFunction, Request, Response } from "express";
+import type { Socket } from "socket.io";
+import type { UserStore } from "./store";
+import { UserAccount } from "./types";
+
+// ---------- Signed tokens (JWT, HS256) ----------
+const TOKEN_TTL_SEC = Number(process.env.AUTH_TOKEN_TTL_SEC) || 7 * 24 * 3600;
+
+const SECRET = (() => {
+  if (process.env.AUTH_SECRET) return process.env.AUTH_SECRET;
+  // eslint-disable-next-line no-console
+  console.warn(
+    "AUTH_SECRET not set. Using a random secret; tokens expire on restart."
+  );
+  return crypto.randomBytes(32).toString("hex");
+})();
+
+function b64url(input: Buffer | string): string {
+  return Buffer.from(input).toString("base64url");
+}
+
+function hmac(data: string): string {
+  return crypto.createHmac("sha256", SECRET).update(data).digest("base64url");
+}
+
+export function signToken(userId: string): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = b64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const payload = b64url(
+    JSON.stringify({ sub: userId, iat: now, exp: now + TOKEN_TTL_SEC })
+  );
+  return `${header}.${payload}.${hmac(`${header}.${payload}`)}`;
+}
+
+/** Returns the user id for a valid, unexpired token; otherwise null. */
+export function verifyToken(token: string | undefined): string | null {
+  if (!token) return null;
+  const [header, payload, sig] = token.split(".");
+  if (!header || !payload || !sig) return null;
+  const expected = Buffer.from(hmac(`${header}.${payload}`));
+  const actual = Buffer.from(sig);
+  if (
+    expected.length !== actual.length ||
+    !crypto.timingSafeEqual(expected, actual)
+  ) {
+    return null;
+  }
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+    if (typeof claims.sub !== "string") return null;
+    if (typeof claims.exp !== "number" || claims.exp * 1000 < Date.now()) {
+      return null;
+    }
+    return claims.sub;
+  } catch {
+    return null;
+  }
+}
+
+// ---------- Passwords ----------
+function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(16).toString("hex");
+  const hash = crypto.scryptSync(password, salt, 64).toString("hex");
+  return `${salt}:${hash}`;
+}
+
+function checkPassword(password: string, stored: string): boolean {
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) return false;
+  const actual = crypto.scryptSync(password, salt, 64);
+  const expected = Buffer.from(hash, "hex");
+  return (
+    actual.length === expected.length &&
+    crypto.timingSafeEqual(actual, expected)
+  );
+}
+
+// ---------- Express: POST /auth/token ----------
+// Exchanges username/password for a token. The first login with an unused
+// username creates the account.
+export function createAuthRouter(users: UserStore): express.Router {
+  const router = express.Router();
+  router.post("/token", express.json(), async (req: Request, res: Response) => {
+    const { username, password } = (req.body || {}) as {
+      username?: string;
+      password?: string;
+    };
+    const name = typeof username === "string" ? username.trim() : "";
+    if (!name || typeof password !== "string" || password.length < 6) {
+      res
+        .status(400)
+        .json({ error: "username and password (6+ chars) required" });
+      return;
+    }
+    let user = await users.getByUsername(name);
+    if (!user) {
+      user = {
+        id: crypto.randomUUID(),
+        username: name,
+        passwordHash: hashPassword(password),
+        createdAt: Date.now(),
+      } as UserAccount;
+      await users.create(user);
+    } else if (!checkPassword(password, user.passwordHash)) {
+      res.status(401).json({ error: "invalid credentials" });
+      return;
+    }
+    res.json({ token: signToken(user.id), userId: user.id, username: name });
+  });
+  return router;
+}
+
+// ---------- Express: bearer tokens ----------
+// Sets res.locals.userId from `Authorization: Bearer <token>`; 401 otherwise.
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers.authorization || "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : undefined;
+  const userId = verifyToken(token);
+  if (!userId) {
+    res.status(401).json({ error: "unauthorized" });
+    return;
+  }
+  res.locals.userId = userId;
+  next();
+}
+
+// ---------- Socket.IO handshake ----------
+// socket.data.userId is set only from a verified token; others are rejected.
+export function socketAuth(socket: Socket, next: (err?: Error) => void) {
+  const token = (socket.handshake.auth as { token?: string } | undefined)
+    ?.token;
+  const userId = verifyToken(token);
+  if (!userId) return next(new Error("unauthorized"));
+  socket.data.userId = userId;
+  next();
+}
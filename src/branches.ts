@@ -0,0 +1,117 @@
+import { Message } from "./types";
+
+// ---------- Branching conversation history ----------
+// User and AI text messages form a tree through `parentId`; tool messages
+// hang off the user message that triggered them and name their reply via
+// `replyId`, attachments hang off the user message they came with. Records
+// written before branching existed have no `parentId` and are chained in
+// timestamp order.
+
+export interface Branch {
+  messages: Message[]; // the active path, tool messages and attachments included, oldest first
+  leafId: string | null;
+  // For nodes on the path that have alternatives: all siblings, oldest first
+  siblings: Record<string, string[]>;
+}
+
+function isNode(m: Message): boolean {
+  return m.message.type === "text";
+}
+
+interface Tree {
+  nodes: Map<string, Message>;
+  parentOf: Map<string, string | null>;
+  children: Map<string | null, Message[]>;
+  tools: Message[];
+}
+
+function buildTree(messages: Message[]): Tree {
+  const sorted = [...messages].sort((a, b) => a.timestamp - b.timestamp);
+  const nodes = new Map<string, Message>();
+  const parentOf = new Map<string, string | null>();
+  const children = new Map<string | null, Message[]>();
+  const tools: Message[] = [];
+  let previous: string | null = null; // last legacy node, for chaining
+  for (const m of sorted) {
+    if (!isNode(m)) {
+      tools.push(m);
+      continue;
+    }
+    const parent: string | null =
+      m.parentId === undefined ? previous : m.parentId;
+    if (m.parentId === undefined) previous = m.id;
+    nodes.set(m.id, m);
+    parentOf.set(m.id, parent);
+    if (!children.has(parent)) children.set(parent, []);
+    children.get(parent)!.push(m);
+  }
+  return { nodes, parentOf, children, tools };
+}
+
+// Follow the most recent child down to a leaf
+function latestLeaf(tree: Tree, fromId: string): string {
+  let id = fromId;
+  for (;;) {
+    const kids = tree.children.get(id);
+    if (!kids || kids.length === 0) return id;
+    id = kids[kids.length - 1].id;
+  }
+}
+
+/** Deepest, most recent descendant of `nodeId` (itself if it has none). */
+export function resolveLeaf(messages: Message[], nodeId: string): string {
+  return latestLeaf(buildTree(messages), nodeId);
+}
+
+/**
+ * The path from the root to `leafId` (or to the most recent message when
+ * the leaf is unknown), with the tool traces that belong to it.
+ */
+export function getBranch(messages: Message[], leafId?: string): Branch {
+  const tree = buildTree(messages);
+  let leaf = leafId && tree.nodes.has(leafId) ? leafId : null;
+  if (!leaf) {
+    const all = [...tree.nodes.values()];
+    leaf = all.length > 0 ? all[all.length - 1].id : null;
+  }
+
+  const path: Message[] = [];
+  for (let id = leaf; id; id = tree.parentOf.get(id) ?? null) {
+    path.unshift(tree.nodes.get(id)!);
+  }
+  const onPath = new Set(path.map((m) => m.id));
+
+  // Legacy tool messages belong to the next node by timestamp
+  const sortedNodes = [...tree.nodes.values()];
+  const legacyOwner = (t: Message): string | undefined =>
+    sortedNodes.find((n) => n.timestamp >= t.timestamp)?.id;
+
+  const tools = tree.tools.filter((t) => {
+    if (t.parentId === undefined) {
+      const owner = legacyOwner(t);
+      // No later node: the reply is still streaming after the leaf
+      return owner ? onPath.has(owner) : true;
+    }
+    if (t.message.type === "attachment") return onPath.has(t.parentId ?? "");
+    // Finished replies on the path, or an in-flight reply to the leaf
+    if (t.replyId && tree.nodes.has(t.replyId)) return onPath.has(t.replyId);
+    return t.parentId === leaf;
+  });
+
+  const siblings: Record<string, string[]> = {};
+  for (const m of path) {
+    const kids = tree.children.get(tree.parentOf.get(m.id) ?? null) ?? [];
+    if (kids.length > 1) siblings[m.id] = kids.map((k) => k.id);
+  }
+
+  return {
+    messages: [...path, ...tools].sort((a, b) => a.timestamp - b.timestamp),
+    leafId: leaf,
+    siblings,
+  };
+}
+
+/** Parent of a node, resolving legacy records by timestamp order. */
+export function getParentId(messages: Message[], nodeId: string): string | null {
+  return buildTree(messages).parentOf.get(nodeId) ?? null;
+}
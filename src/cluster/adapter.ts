@@ -0,0 +1,56 @@
+import {
+  ClusterAdapterWithHeartbeat,
+  ClusterMessage,
+  ClusterResponse,
+  ServerId,
+} from "socket.io-adapter";
+import type { ClusterTransport } from "./index";
+
+const PREFIX = "socket.io";
+
+// Socket.IO cluster adapter on top of a ClusterTransport: room broadcasts,
+// fetchSockets and serverSideEmit reach sockets/servers on other instances.
+// Messages travel as JSON, so binary packets are not supported.
+class TransportAdapter extends ClusterAdapterWithHeartbeat {
+  constructor(nsp: any, private readonly transport: ClusterTransport) {
+    super(nsp, {});
+    const channel = `${PREFIX}#${nsp.name}`;
+    transport
+      .subscribe(channel, (payload) => this.onMessage(JSON.parse(payload)))
+      .then(() =>
+        transport.subscribe(`${channel}#${this.uid}`, (payload) =>
+          this.onResponse(JSON.parse(payload))
+        )
+      )
+      .catch((err) => {
+        // eslint-disable-next-line no-console
+        console.error("Cluster subscribe failed:", err);
+      });
+  }
+
+  protected async doPublish(message: ClusterMessage): Promise<string> {
+    await this.transport.publish(
+      `${PREFIX}#${message.nsp}`,
+      JSON.stringify(message)
+    );
+    return "";
+  }
+
+  protected async doPublishResponse(
+    requesterUid: ServerId,
+    response: ClusterResponse
+  ): Promise<void> {
+    await this.transport.publish(
+      `${PREFIX}#${response.nsp}#${requesterUid}`,
+      JSON.stringify(response)
+    );
+  }
+}
+
+/** Adapter factory for `new Server(httpServer, { adapter })`. */
+export function createTransportAdapter(transport: ClusterTransport) {
+  // Socket.IO calls this with `new`, so it can't be an arrow function
+  return function (nsp: any) {
+    return new TransportAdapter(nsp, transport);
+  };
+}
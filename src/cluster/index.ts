@@ -0,0 +1,29 @@
+import { createTransportAdapter } from "./adapter";
+import { createIpcTransport } from "./ipc";
+import { createRedisTransport } from "./redis";
+
+// ---------- Cross-instance transport ----------
+// Minimal pub/sub the Socket.IO cluster adapter runs on. The in-memory hub
+// (./memory) links servers in one process; ./ipc links child processes
+// through their parent, which is how the e2e tests use the hub.
+export interface ClusterTransport {
+  publish(channel: string, payload: string): Promise<void>;
+  subscribe(channel: string, handler: (payload: string) => void): Promise<void>;
+}
+
+export { createTransportAdapter };
+
+/**
+ * Pick the transport from env: CLUSTER_TRANSPORT=none (default, single
+ * instance), CLUSTER_TRANSPORT=redis (REDIS_URL) or CLUSTER_TRANSPORT=ipc
+ * (child process of a relaying parent, as in the e2e tests).
+ */
+export function createClusterTransport(): ClusterTransport | null {
+  const kind = process.env.CLUSTER_TRANSPORT || "none";
+  if (kind === "none") return null;
+  if (kind === "redis") {
+    return createRedisTransport(process.env.REDIS_URL || "redis://localhost:6379");
+  }
+  if (kind === "ipc") return createIpcTransport();
+  throw new Error(`Unknown CLUSTER_TRANSPORT: ${kind}`);
+}
@@ -0,0 +1,36 @@
+import type { ClusterTransport } from "./index";
+
+// What a child process exchanges with its parent: subscribe and publish go
+// up, deliveries for its subscriptions come down.
+export type IpcClusterMessage =
+  | { cluster: "subscribe"; channel: string }
+  | { cluster: "publish"; channel: string; payload: string }
+  | { cluster: "deliver"; channel: string; payload: string };
+
+// Pub/sub through the parent process, which relays between its children
+// (the e2e tests put a memory hub behind it).
+export function createIpcTransport(): ClusterTransport {
+  const send = process.send?.bind(process);
+  if (!send) throw new Error("CLUSTER_TRANSPORT=ipc needs an IPC channel to the parent");
+  const handlers = new Map<string, Set<(payload: string) => void>>();
+  process.on("message", (message: IpcClusterMessage) => {
+    if (message?.cluster !== "deliver") return;
+    for (const handler of handlers.get(message.channel) ?? []) {
+      handler(message.payload);
+    }
+  });
+  const post = (message: IpcClusterMessage) =>
+    new Promise<void>((resolve, reject) =>
+      send(message, undefined, {}, (err) => (err ? reject(err) : resolve()))
+    );
+  return {
+    async publish(channel, payload) {
+      await post({ cluster: "publish", channel, payload });
+    },
+    async subscribe(channel, handler) {
+      if (!handlers.has(channel)) handlers.set(channel, new Set());
+      handlers.get(channel)!.add(handler);
+      await post({ cluster: "subscribe", channel });
+    },
+  };
+}
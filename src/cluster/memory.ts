@@ -0,0 +1,23 @@
+import type { ClusterTransport } from "./index";
+
+// In-process stand-in for a pub/sub broker. Each server gets its own
+// transport from the same hub; delivery is async and in publish order. The
+// e2e tests run one in the test process and relay to their servers over IPC.
+export function createMemoryHub() {
+  const handlers = new Map<string, Set<(payload: string) => void>>();
+  return {
+    transport(): ClusterTransport {
+      return {
+        async publish(channel, payload) {
+          for (const handler of handlers.get(channel) ?? []) {
+            queueMicrotask(() => handler(payload));
+          }
+        },
+        async subscribe(channel, handler) {
+          if (!handlers.has(channel)) handlers.set(channel, new Set());
+          handlers.get(channel)!.add(handler);
+        },
+      };
+    },
+  };
+}
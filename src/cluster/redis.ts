@@ -0,0 +1,19 @@
+import { createClient } from "redis";
+import type { ClusterTransport } from "./index";
+
+// Redis pub/sub transport; subscribing needs a dedicated connection.
+export function createRedisTransport(url: string): ClusterTransport {
+  const pub = createClient({ url });
+  const sub = pub.duplicate();
+  const ready = Promise.all([pub.connect(), sub.connect()]);
+  return {
+    async publish(channel, payload) {
+      await ready;
+      await pub.publish(channel, payload);
+    },
+    async subscribe(channel, handler) {
+      await ready;
+      await sub.subscribe(channel, (message) => handler(message));
+    },
+  };
+}
@@ -0,0 +1,136 @@
+import { AIErrorKind } from "./types";
+
+// ---------- Failed replies ----------
+// Sorts whatever the provider, the network or a tool threw into a kind the
+// client can explain, and whether trying again soon may help. The AI SDK
+// wraps errors (RetryError.lastError, .cause), so the whole chain is checked;
+// plain messages are matched too, for providers (and the scripted model)
+// that throw bare Errors.
+export interface AIFailure {
+  kind: AIErrorKind;
+  message: string; // shown to the user
+  retryable: boolean; // transient: worth retrying automatically
+  retryAfterMs?: number; // the provider's Retry-After, if it sent one
+}
+
+// Replies are retried automatically only before anything was streamed
+export const AI_RETRY_MAX = Number(process.env.AI_RETRY_MAX ?? 2);
+export const AI_RETRY_BASE_MS = Number(process.env.AI_RETRY_BASE_MS) || 1000;
+const AI_RETRY_MAX_DELAY_MS = 30000;
+
+const MESSAGES: Record<AIErrorKind, string> = {
+  auth: "模型服务鉴权失败，请检查 API Key 配置",
+  rate_limit: "模型服务请求过于频繁",
+  timeout: "模型服务响应超时",
+  tool: "工具调用失败",
+  network: "无法连接模型服务",
+  unknown: "生成回复时出错",
+};
+
+const TRANSIENT = new Set<AIErrorKind>(["rate_limit", "timeout", "network"]);
+
+const NETWORK_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EPIPE",
+  "UND_ERR_SOCKET",
+]);
+const TIMEOUT_CODES = new Set([
+  "ETIMEDOUT",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+  "UND_ERR_BODY_TIMEOUT",
+]);
+const TOOL_ERRORS =
+  /^AI_(NoSuchTool|InvalidToolInput|ToolExecution|ToolCallRepair)Error$/;
+
+type ErrorLike = {
+  name?: unknown;
+  message?: unknown;
+  code?: unknown;
+  statusCode?: unknown;
+  status?: unknown;
+  responseHeaders?: Record<string, string>;
+  lastError?: unknown;
+  cause?: unknown;
+};
+
+function errorChain(err: unknown): ErrorLike[] {
+  const chain: ErrorLike[] = [];
+  for (let e = err; e && typeof e === "object" && chain.length < 5; ) {
+    if (chain.includes(e as ErrorLike)) break;
+    chain.push(e as ErrorLike);
+    e = (e as ErrorLike).lastError ?? (e as ErrorLike).cause;
+  }
+  return chain;
+}
+
+function retryAfterMs(e: ErrorLike): number | undefined {
+  const header = e.responseHeaders?.["retry-after"];
+  const seconds = Number(header);
+  return header && Number.isFinite(seconds) ? seconds * 1000 : undefined;
+}
+
+function kindOf(e: ErrorLike): AIErrorKind | null {
+  const name = String(e.name ?? "");
+  const text = String(e.message ?? "");
+  const code = String(e.code ?? "");
+  const status = Number(e.statusCode ?? e.status) || 0;
+  if (TOOL_ERRORS.test(name)) return "tool";
+  if (name === "AI_LoadAPIKeyError" || status === 401 || status === 403) {
+    return "auth";
+  }
+  if (status === 429 || /\b429\b|rate.?limit|too many requests/i.test(text)) {
+    return "rate_limit";
+  }
+  if (
+    status === 408 ||
+    status === 504 ||
+    name === "TimeoutError" ||
+    TIMEOUT_CODES.has(code) ||
+    /timed? ?out/i.test(text)
+  ) {
+    return "timeout";
+  }
+  if (
+    status >= 500 ||
+    NETWORK_CODES.has(code) ||
+    /fetch failed|socket hang up|network/i.test(text)
+  ) {
+    return "network";
+  }
+  if (/\b40[13]\b|unauthori[sz]ed|api key/i.test(text)) return "auth";
+  return null;
+}
+
+/** Classify a failed reply. */
+export function classifyAIError(err: unknown): AIFailure {
+  const chain = errorChain(err);
+  for (const e of chain) {
+    const kind = kindOf(e);
+    if (!kind) continue;
+    const detail = kind === "tool" ? String(e.message ?? "") : "";
+    return {
+      kind,
+      message: detail ? `${MESSAGES[kind]}：${detail.slice(0, 200)}` : MESSAGES[kind],
+      retryable: TRANSIENT.has(kind),
+      retryAfterMs: retryAfterMs(e),
+    };
+  }
+  const detail = String(chain[0]?.message ?? err ?? "").slice(0, 200);
+  return {
+    kind: "unknown",
+    message: detail ? `${MESSAGES.unknown}：${detail}` : MESSAGES.unknown,
+    retryable: false,
+  };
+}
+
+/** Wait before automatic retry `attempt` (1-based). */
+export function retryDelayMs(failure: AIFailure, attempt: number): number {
+  return Math.min(
+    failure.retryAfterMs ?? AI_RETRY_BASE_MS * 2 ** (attempt - 1),
+    AI_RETRY_MAX_DELAY_MS
+  );
+}
@@ -0,0 +1,219 @@
+import type {
+  JSONValue,
+  ModelMessage,
+  TextPart,
+  ToolCallPart,
+  ToolResultPart,
+  UserContent,
+} from "ai";
+import { isImage } from "./attachments";
+import { AttachmentBody, Message, ToolResultBody } from "./types";
+
+// ---------- Conversation history for multi-turn context ----------
+// Budget is measured in characters (a rough stand-in for tokens) and in
+// turns; both can be tuned through env without touching code.
+export interface HistoryBudget {
+  maxChars: number;
+  maxTurns: number;
+}
+
+export const historyBudget: HistoryBudget = {
+  maxChars: Number(process.env.HISTORY_MAX_CHARS) || 12000,
+  maxTurns: Number(process.env.HISTORY_MAX_TURNS) || 20,
+};
+
+// What the assistant produced in reply, in stream order
+type ReplyPart = TextPart | ToolCallPart | ToolResultPart;
+
+// One user message plus everything the assistant produced in reply to it
+interface Turn {
+  user: string;
+  attachments: AttachmentBody[];
+  reply: ReplyPart[];
+}
+
+// Bytes of an attached file, or null if it is gone
+export type AttachmentReader = (body: AttachmentBody) => Buffer | null;
+
+// Cap tool results so one large result can't eat the whole budget; a capped
+// result goes back as text, since cut JSON no longer parses
+function toolOutput(body: ToolResultBody): ToolResultPart["output"] {
+  if (body.error) return { type: "error-text", value: body.error };
+  const value = (body.output ?? null) as JSONValue;
+  const json = JSON.stringify(value);
+  return json.length > 500
+    ? { type: "text", value: `${json.slice(0, 500)}…` }
+    : { type: "json", value };
+}
+
+// Providers reject a call without its result (and the reverse): drop the
+// calls of a reply stopped mid-tool, and any record missing its partner
+function pairTools(reply: ReplyPart[]): ReplyPart[] {
+  const ids = (type: ReplyPart["type"]) =>
+    new Set(
+      reply.flatMap((p) =>
+        p.type === type && p.type !== "text" ? [p.toolCallId] : []
+      )
+    );
+  const calls = ids("tool-call");
+  const results = ids("tool-result");
+  return reply.filter(
+    (p) =>
+      p.type === "text" ||
+      (calls.has(p.toolCallId) && results.has(p.toolCallId))
+  );
+}
+
+function groupTurns(messages: Message[]): Turn[] {
+  const turns: Turn[] = [];
+  // Failed replies (and the tool calls they made) aren't part of the answer
+  const failed = new Set(
+    messages.filter((m) => m.message.type === "error").map((m) => m.id)
+  );
+  // The tool ran with the user's arguments, not the model's; denials
+  // already show up as the tool's error
+  const edited = new Map<string, unknown>();
+  for (const m of messages) {
+    if (m.message.type === "tool_approval" && m.message.status === "edited") {
+      edited.set(m.message.toolCallId, m.message.input);
+    }
+  }
+  for (const m of messages) {
+    if (m.replyId && failed.has(m.replyId)) continue;
+    if (m.role === "user" && m.message.type === "text") {
+      turns.push({ user: m.message.content, attachments: [], reply: [] });
+      continue;
+    }
+    const current = turns[turns.length - 1];
+    if (!current) continue; // assistant output without a preceding question
+    const body = m.message;
+    if (body.type === "attachment") {
+      current.attachments.push(body);
+    } else if (body.type === "text") {
+      if (body.content) current.reply.push({ type: "text", text: body.content });
+    } else if (body.type === "tool_use" && body.toolCallId) {
+      current.reply.push({
+        type: "tool-call",
+        toolCallId: body.toolCallId,
+        toolName: body.content,
+        input: edited.has(body.toolCallId)
+          ? edited.get(body.toolCallId)
+          : (body.input ?? {}),
+      });
+    } else if (body.type === "tool_result" && body.toolCallId) {
+      current.reply.push({
+        type: "tool-result",
+        toolCallId: body.toolCallId,
+        toolName: body.content,
+        output: toolOutput(body),
+      });
+    }
+  }
+  return turns.map((t) => ({ ...t, reply: pairTools(t.reply) }));
+}
+
+function partSize(part: ReplyPart): number {
+  if (part.type === "text") return part.text.length;
+  if (part.type === "tool-call") return (JSON.stringify(part.input) ?? "").length;
+  return JSON.stringify(part.output.value).length;
+}
+
+// Text files count by size; images are left to the model's own limits
+function turnSize(turn: Turn, maxChars: number): number {
+  const files = turn.attachments
+    .filter((a) => !isImage(a.mimeType))
+    .reduce((n, a) => n + Math.min(a.size, maxChars), 0);
+  return (
+    turn.user.length + files + turn.reply.reduce((n, p) => n + partSize(p), 0)
+  );
+}
+
+// The user's text followed by their files: images as image parts, text
+// files inlined (capped at the budget)
+function userContent(
+  turn: Turn,
+  read: AttachmentReader | undefined,
+  maxChars: number
+): UserContent {
+  if (turn.attachments.length === 0 || !read) return turn.user;
+  const parts: Exclude<UserContent, string> = [];
+  if (turn.user) parts.push({ type: "text", text: turn.user });
+  for (const a of turn.attachments) {
+    const data = read(a);
+    if (!data) {
+      parts.push({ type: "text", text: `[附件 ${a.content} 已不可用]` });
+    } else if (isImage(a.mimeType)) {
+      parts.push({ type: "image", image: data, mediaType: a.mimeType });
+    } else {
+      const text = data.toString("utf8");
+      const capped =
+        text.length > maxChars ? `${text.slice(0, maxChars)}…（已截断）` : text;
+      parts.push({ type: "text", text: `[附件 ${a.content}]\n${capped}` });
+    }
+  }
+  return parts;
+}
+
+// Text and tool calls go in assistant messages, results in tool messages
+// after them, keeping the order in which the reply streamed
+function replyMessages(reply: ReplyPart[]): ModelMessage[] {
+  const messages: ModelMessage[] = [];
+  for (const part of reply) {
+    const last = messages[messages.length - 1];
+    if (part.type === "tool-result") {
+      if (last?.role === "tool") last.content.push(part);
+      else messages.push({ role: "tool", content: [part] });
+    } else if (last?.role === "assistant" && Array.isArray(last.content)) {
+      last.content.push(part);
+    } else {
+      messages.push({ role: "assistant", content: [part] });
+    }
+  }
+  return messages;
+}
+
+// Older turns that fall outside the budget are condensed into a single
+// system note listing what the user asked, so follow-ups keep their anchor.
+function summarizeDropped(turns: Turn[]): string {
+  const asked = turns
+    .map((t) => `- ${t.user.slice(0, 80) || "（发送了附件）"}`)
+    .join("\n");
+  return `更早的 ${turns.length} 轮对话已省略，用户当时问过：\n${asked}`;
+}
+
+/**
+ * Rebuild the model-facing conversation from stored session messages
+ * (sorted by timestamp). The last turn is always kept, even when it alone
+ * exceeds the budget. Attachments are only sent when `read` is given.
+ */
+export function buildConversation(
+  messages: Message[],
+  budget: HistoryBudget = historyBudget,
+  read?: AttachmentReader
+): ModelMessage[] {
+  const turns = groupTurns(messages);
+  const kept: Turn[] = [];
+  let used = 0;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const size = turnSize(turns[i], budget.maxChars);
+    const overBudget =
+      kept.length >= budget.maxTurns || used + size > budget.maxChars;
+    if (kept.length > 0 && overBudget) break;
+    kept.unshift(turns[i]);
+    used += size;
+  }
+
+  const result: ModelMessage[] = [];
+  const dropped = turns.slice(0, turns.length - kept.length);
+  if (dropped.length > 0) {
+    result.push({ role: "system", content: summarizeDropped(dropped) });
+  }
+  for (const turn of kept) {
+    result.push({
+      role: "user",
+      content: userContent(turn, read, budget.maxChars),
+    });
+    result.push(...replyMessages(turn.reply));
+  }
+  return result;
+}
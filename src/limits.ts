@@ -0,0 +1,83 @@
+import { LimitHit } from "./types";
+
+// ---------- Per-user limits ----------
+// Counters live in memory on each instance: with several instances behind a
+// load balancer every limit applies per instance. 0 disables a limit.
+export interface LimitConfig {
+  maxConcurrentStreams: number; // replies streaming at once, all sessions
+  requestsPerMinute: number; // replies started in any 60 s window
+  dailyTokens: number; // model tokens per UTC day
+}
+
+export const limitConfig: LimitConfig = {
+  maxConcurrentStreams: Number(process.env.LIMIT_CONCURRENT_STREAMS ?? 3),
+  requestsPerMinute: Number(process.env.LIMIT_REQUESTS_PER_MINUTE ?? 20),
+  dailyTokens: Number(process.env.LIMIT_DAILY_TOKENS ?? 200000),
+};
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export function createUsageLimiter(config: LimitConfig = limitConfig) {
+  const requests = new Map<string, number[]>(); // userId -> start times
+  const tokens = new Map<string, { day: string; used: number }>();
+
+  function recentRequests(userId: string, now: number): number[] {
+    const recent = (requests.get(userId) ?? []).filter(
+      (t) => now - t < MINUTE_MS
+    );
+    requests.set(userId, recent);
+    return recent;
+  }
+
+  function tokensUsed(userId: string): number {
+    const entry = tokens.get(userId);
+    return entry && entry.day === today() ? entry.used : 0;
+  }
+
+  /** The first limit a new reply would exceed, given the user's live streams. */
+  function check(userId: string, streaming: number): LimitHit | null {
+    const now = Date.now();
+    if (
+      config.maxConcurrentStreams > 0 &&
+      streaming >= config.maxConcurrentStreams
+    ) {
+      return {
+        reason: "concurrent_streams",
+        message: `最多同时生成 ${config.maxConcurrentStreams} 个回复，请等待其它回复完成`,
+      };
+    }
+    const recent = recentRequests(userId, now);
+    const perMinute = config.requestsPerMinute;
+    if (perMinute > 0 && recent.length >= perMinute) {
+      return {
+        reason: "rate_limit",
+        message: `请求过于频繁（每分钟最多 ${perMinute} 次），请稍后再试`,
+        retryAfterMs: MINUTE_MS - (now - recent[0]),
+      };
+    }
+    if (config.dailyTokens > 0 && tokensUsed(userId) >= config.dailyTokens) {
+      return {
+        reason: "daily_tokens",
+        message: `今日 token 额度（${config.dailyTokens}）已用完`,
+        retryAfterMs: DAY_MS - (now % DAY_MS),
+      };
+    }
+    return null;
+  }
+
+  function recordRequest(userId: string): void {
+    recentRequests(userId, Date.now()).push(Date.now());
+  }
+
+  function recordTokens(userId: string, count: number): void {
+    if (!(count > 0)) return;
+    tokens.set(userId, { day: today(), used: tokensUsed(userId) + count });
+  }
+
+  return { check, recordRequest, recordTokens };
+}
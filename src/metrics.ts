@@ -0,0 +1,173 @@
+import { AIErrorKind, MessageStatus, MessageUsage } from "./types";
+
+// ---------- Prometheus metrics ----------
+// Plain-text exposition at GET /metrics. Values live in memory on each
+// instance and start from zero with the process; with several instances
+// Prometheus scrapes and sums them.
+type Labels = Record<string, string>;
+
+// Seconds; replies with tools can take minutes
+const LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function labelText(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([k, v]) => `${k}="${escapeLabel(v)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function header(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+function createCounter(name: string, help: string) {
+  const values = new Map<string, { labels: Labels; value: number }>();
+  return {
+    inc(labels: Labels, by = 1) {
+      const key = labelText(labels);
+      const entry = values.get(key) ?? { labels, value: 0 };
+      entry.value += by;
+      values.set(key, entry);
+    },
+    render(): string[] {
+      return [
+        ...header(name, help, "counter"),
+        ...[...values.values()].map(
+          (e) => `${name}${labelText(e.labels)} ${e.value}`
+        ),
+      ];
+    },
+  };
+}
+
+function createHistogram(name: string, help: string, buckets: number[]) {
+  const series = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+  return {
+    observe(labels: Labels, value: number) {
+      const key = labelText(labels);
+      const entry = series.get(key) ?? {
+        labels,
+        counts: buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      buckets.forEach((le, i) => {
+        if (value <= le) entry.counts[i] += 1;
+      });
+      entry.sum += value;
+      entry.count += 1;
+      series.set(key, entry);
+    },
+    render(): string[] {
+      const lines = header(name, help, "histogram");
+      for (const e of series.values()) {
+        buckets.forEach((le, i) => {
+          const labels = labelText({ ...e.labels, le: String(le) });
+          lines.push(`${name}_bucket${labels} ${e.counts[i]}`);
+        });
+        const inf = labelText({ ...e.labels, le: "+Inf" });
+        lines.push(`${name}_bucket${inf} ${e.count}`);
+        lines.push(`${name}_sum${labelText(e.labels)} ${e.sum}`);
+        lines.push(`${name}_count${labelText(e.labels)} ${e.count}`);
+      }
+      return lines;
+    },
+  };
+}
+
+// Read when scraped
+export interface MetricGauges {
+  activeStreams: () => number;
+  connectedSockets: () => number;
+}
+
+export function createMetrics(gauges: MetricGauges) {
+  const replies = createCounter(
+    "chat_replies_total",
+    "AI replies finished, by model and outcome (complete, aborted, error)."
+  );
+  const tokens = createCounter(
+    "chat_tokens_total",
+    "Model tokens used by replies, by model and type (prompt, completion)."
+  );
+  const cost = createCounter(
+    "chat_cost_usd_total",
+    "Estimated model spend in USD, for models with a known price."
+  );
+  const errors = createCounter(
+    "chat_ai_errors_total",
+    "Failed model calls by kind, automatically retried ones included."
+  );
+  const duration = createHistogram(
+    "chat_reply_duration_seconds",
+    "Time from the start of a reply to its end.",
+    LATENCY_BUCKETS
+  );
+  const firstToken = createHistogram(
+    "chat_first_token_seconds",
+    "Time from the start of a reply to its first text.",
+    LATENCY_BUCKETS
+  );
+  const toolDuration = createHistogram(
+    "chat_tool_duration_seconds",
+    "Time spent in tool calls (approval waits included), by tool and outcome.",
+    LATENCY_BUCKETS
+  );
+
+  return {
+    /** Count a finished reply. */
+    recordReply(usage: MessageUsage, status: MessageStatus | "error") {
+      const model = usage.model;
+      replies.inc({ model, status });
+      tokens.inc({ model, type: "prompt" }, usage.promptTokens ?? 0);
+      tokens.inc({ model, type: "completion" }, usage.completionTokens ?? 0);
+      if (usage.costUsd !== undefined) cost.inc({ model }, usage.costUsd);
+      duration.observe({ model }, usage.durationMs / 1000);
+      if (usage.firstTokenMs !== undefined) {
+        firstToken.observe({ model }, usage.firstTokenMs / 1000);
+      }
+      for (const t of usage.tools) {
+        const outcome = t.error ? "error" : "ok";
+        toolDuration.observe({ tool: t.name, outcome }, t.durationMs / 1000);
+      }
+    },
+    recordError(kind: AIErrorKind) {
+      errors.inc({ kind });
+    },
+    /** The exposition text for a scrape. */
+    render(): string {
+      const gauge = (name: string, help: string, value: number) => [
+        ...header(name, help, "gauge"),
+        `${name} ${value}`,
+      ];
+      return [
+        ...replies.render(),
+        ...tokens.render(),
+        ...cost.render(),
+        ...errors.render(),
+        ...duration.render(),
+        ...firstToken.render(),
+        ...toolDuration.render(),
+        ...gauge(
+          "chat_active_streams",
+          "Replies streaming on this instance.",
+          gauges.activeStreams()
+        ),
+        ...gauge(
+          "chat_connected_sockets",
+          "Socket.IO clients connected to this instance.",
+          gauges.connectedSockets()
+        ),
+      ].join("\n") + "\n";
+    },
+  };
+}
+
+export type Metrics = ReturnType<typeof createMetrics>;
@@ -0,0 +1,35 @@
+import path from "path";
+import type { LanguageModel } from "ai";
+import { openai } from "@ai-sdk/openai";
+import { createScriptedModel } from "./scripted";
+
+// ---------- Model selection ----------
+// AI_MODEL is "<provider>:<model>": openai:gpt-5 (default; OPENAI_API_KEY,
+// optional OPENAI_BASE_URL), or scripted[:<fixture dir>] for the offline
+// model. AI_TITLE_MODEL (session titles) defaults to AI_MODEL.
+export const AI_MODEL = process.env.AI_MODEL || "openai:gpt-5";
+export const AI_TITLE_MODEL = process.env.AI_TITLE_MODEL || AI_MODEL;
+
+// Scripted models with the same fixtures share one instance
+const scripted = new Map<string, LanguageModel>();
+
+export function createModel(spec: string = AI_MODEL): LanguageModel {
+  const sep = spec.indexOf(":");
+  const provider = sep >= 0 ? spec.slice(0, sep) : spec;
+  const id = sep >= 0 ? spec.slice(sep + 1) : "";
+  if (provider === "openai") {
+    if (!process.env.OPENAI_API_KEY) {
+      // eslint-disable-next-line no-console
+      console.warn(
+        "OPENAI_API_KEY not set. AI streaming will fail until provided."
+      );
+    }
+    return openai(id || "gpt-5");
+  }
+  if (provider === "scripted") {
+    const dir = id ? path.resolve(id) : "";
+    if (!scripted.has(dir)) scripted.set(dir, createScriptedModel(dir || undefined));
+    return scripted.get(dir)!;
+  }
+  throw new Error(`Unknown AI_MODEL provider: ${provider}`);
+}
@@ -0,0 +1,246 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import type { LanguageModel } from "ai";
+import { sleep } from "../tools";
+
+// ---------- Scripted model (offline, deterministic) ----------
+// Replays fixture files instead of calling a provider, for tests, CI and
+// demos. Each fixture is a JSON file:
+//   { "match": "去哪玩", "delayMs": 20, "steps": [
+//       { "toolCalls": [{ "name": "get_weather", "input": { "location": "上海" } }] },
+//       { "reasoning": ["先查天气", "再推荐"], "text": ["今天", "适合去外滩。"],
+//         "sources": [{ "url": "https://example.com", "title": "示例" }] } ] }
+// The first fixture (by file name) whose `match` regex finds the last user
+// message (and `system` the system prompt, if given) wins, those with a
+// `system` pattern first; one with neither is the fallback, otherwise the
+// model echoes the message. A model call after N tool rounds plays steps[N].
+
+type ScriptedLanguageModel = Exclude<LanguageModel, string>;
+type CallOptions = Parameters<ScriptedLanguageModel["doStream"]>[0];
+type StreamResult = Awaited<ReturnType<ScriptedLanguageModel["doStream"]>>;
+type StreamPart = StreamResult["stream"] extends ReadableStream<infer P>
+  ? P
+  : never;
+
+export interface ScriptedStep {
+  reasoning?: string | string[]; // thinking deltas, streamed before the text
+  text?: string | string[]; // deltas, streamed in order
+  toolCalls?: Array<{ name: string; input?: unknown }>; // input streams first
+  sources?: Array<{ url: string; title?: string }>; // cited after the text
+  delayMs?: number; // before each delta / tool call; overrides the fixture's
+  error?: string; // fail the call after the deltas (a provider error)
+}
+
+export interface ScriptedFixture {
+  name: string; // file name, for logs
+  match?: string; // regex (case-insensitive) on the last user message
+  system?: string; // regex on the system prompt, e.g. to tell agents apart
+  delayMs?: number;
+  steps: ScriptedStep[];
+}
+
+export const SCRIPTED_FIXTURES_DIR = path.resolve(
+  __dirname,
+  "..",
+  "..",
+  "fixtures"
+);
+
+export function loadFixtures(dir: string): ScriptedFixture[] {
+  if (!fs.existsSync(dir)) {
+    throw new Error(`Scripted model: fixture directory ${dir} not found`);
+  }
+  return fs
+    .readdirSync(dir)
+    .filter((f) => f.endsWith(".json"))
+    .sort()
+    .map((file) => {
+      const raw = JSON.parse(fs.readFileSync(path.join(dir, file), "utf8"));
+      if (!Array.isArray(raw.steps)) {
+        throw new Error(`Scripted model: ${file} has no steps array`);
+      }
+      return { ...raw, name: file } as ScriptedFixture;
+    });
+}
+
+function partText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((p) => (p?.type === "text" ? String(p.text) : ""))
+    .join("");
+}
+
+interface PromptInfo {
+  system: string;
+  text: string; // last user message
+  round: number; // assistant turns (tool rounds) after it
+}
+
+function readPrompt(prompt: CallOptions["prompt"]): PromptInfo {
+  let lastUser = -1;
+  prompt.forEach((m, i) => {
+    if (m.role === "user") lastUser = i;
+  });
+  const system = prompt
+    .filter((m) => m.role === "system")
+    .map((m) => partText(m.content))
+    .join("\n");
+  const text = lastUser >= 0 ? partText(prompt[lastUser].content) : "";
+  const round = prompt
+    .slice(lastUser + 1)
+    .filter((m) => m.role === "assistant").length;
+  return { system, text, round };
+}
+
+function matches(f: ScriptedFixture, info: PromptInfo): boolean {
+  if (!f.match && !f.system) return false;
+  const test = (re: string | undefined, s: string) =>
+    !re || new RegExp(re, "i").test(s);
+  return test(f.match, info.text) && test(f.system, info.system);
+}
+
+function echoStep(text: string): ScriptedStep {
+  const reply = `（离线模型）收到：${text}`;
+  return { text: reply.match(/.{1,4}/gsu) ?? [reply] };
+}
+
+function pickStep(
+  fixtures: ScriptedFixture[],
+  prompt: CallOptions["prompt"]
+): { step: ScriptedStep; delayMs: number } {
+  const info = readPrompt(prompt);
+  const fixture =
+    fixtures.find((f) => f.system && matches(f, info)) ??
+    fixtures.find((f) => matches(f, info)) ??
+    fixtures.find((f) => !f.match && !f.system);
+  if (!fixture) return { step: echoStep(info.text), delayMs: 0 };
+  // Past the script: finish with an empty reply rather than loop on tools
+  const step = fixture.steps[info.round] ?? { text: [] };
+  return { step, delayMs: step.delayMs ?? fixture.delayMs ?? 0 };
+}
+
+function deltas(value: string | string[] | undefined): string[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function usage(prompt: CallOptions["prompt"], output: string) {
+  // Rough counts (~4 chars a token) so usage-based limits still apply
+  const inputTokens = Math.ceil(JSON.stringify(prompt).length / 4);
+  const outputTokens = Math.ceil(output.length / 4);
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+}
+
+export function createScriptedModel(
+  dir: string = SCRIPTED_FIXTURES_DIR
+): ScriptedLanguageModel {
+  const fixtures = loadFixtures(dir);
+  // eslint-disable-next-line no-console
+  console.log(`Scripted model: ${fixtures.length} fixture(s) from ${dir}`);
+
+  return {
+    specificationVersion: "v2",
+    provider: "scripted",
+    modelId: path.basename(dir),
+    supportedUrls: {},
+
+    async doGenerate(options) {
+      const { step } = pickStep(fixtures, options.prompt);
+      if (step.error) throw new Error(step.error);
+      const text = deltas(step.text).join("");
+      const calls = step.toolCalls ?? [];
+      return {
+        content: [
+          ...(text ? [{ type: "text" as const, text }] : []),
+          ...calls.map((c) => ({
+            type: "tool-call" as const,
+            toolCallId: crypto.randomUUID(),
+            toolName: c.name,
+            input: JSON.stringify(c.input ?? {}),
+          })),
+        ],
+        finishReason: calls.length > 0 ? "tool-calls" : "stop",
+        usage: usage(options.prompt, text),
+        warnings: [],
+      };
+    },
+
+    async doStream(options) {
+      const { step, delayMs } = pickStep(fixtures, options.prompt);
+      const signal = options.abortSignal;
+      const stream = new ReadableStream<StreamPart>({
+        async start(controller) {
+          try {
+            controller.enqueue({ type: "stream-start", warnings: [] });
+            let output = "";
+            const thinking = deltas(step.reasoning);
+            const reasoningId = crypto.randomUUID();
+            if (thinking.length > 0) {
+              controller.enqueue({ type: "reasoning-start", id: reasoningId });
+            }
+            for (const delta of thinking) {
+              if (delayMs > 0) await sleep(delayMs, signal);
+              output += delta;
+              controller.enqueue({ type: "reasoning-delta", id: reasoningId, delta });
+            }
+            if (thinking.length > 0) {
+              controller.enqueue({ type: "reasoning-end", id: reasoningId });
+            }
+            const textId = crypto.randomUUID();
+            const chunks = deltas(step.text);
+            if (chunks.length > 0) {
+              controller.enqueue({ type: "text-start", id: textId });
+            }
+            for (const delta of chunks) {
+              if (delayMs > 0) await sleep(delayMs, signal);
+              output += delta;
+              controller.enqueue({ type: "text-delta", id: textId, delta });
+            }
+            if (chunks.length > 0) {
+              controller.enqueue({ type: "text-end", id: textId });
+            }
+            if (step.error) throw new Error(step.error);
+            for (const source of step.sources ?? []) {
+              controller.enqueue({
+                type: "source",
+                sourceType: "url",
+                id: crypto.randomUUID(),
+                url: source.url,
+                title: source.title,
+              });
+            }
+            const calls = step.toolCalls ?? [];
+            for (const call of calls) {
+              // Arguments stream in pieces before the call itself
+              const id = crypto.randomUUID();
+              const input = JSON.stringify(call.input ?? {});
+              controller.enqueue({ type: "tool-input-start", id, toolName: call.name });
+              for (const delta of input.match(/.{1,8}/gsu) ?? []) {
+                if (delayMs > 0) await sleep(delayMs, signal);
+                controller.enqueue({ type: "tool-input-delta", id, delta });
+              }
+              controller.enqueue({ type: "tool-input-end", id });
+              controller.enqueue({
+                type: "tool-call",
+                toolCallId: id,
+                toolName: call.name,
+                input,
+              });
+            }
+            controller.enqueue({
+              type: "finish",
+              finishReason: calls.length > 0 ? "tool-calls" : "stop",
+              usage: usage(options.prompt, output),
+            });
+            controller.close();
+          } catch (err) {
+            controller.error(err);
+          }
+        },
+      });
+      return { stream };
+    },
+  };
+}
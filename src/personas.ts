@@ -0,0 +1,124 @@
+import fs from "fs";
+import path from "path";
+import { Agent } from "@voltagent/core";
+import { AI_MODEL, createModel } from "./model";
+import { PersonaInfo } from "./types";
+
+// ---------- Assistant personas ----------
+// A persona bundles the instructions, model and sampling parameters of an
+// assistant, plus the tools its sessions get by default (SessionItem.tools
+// overrides them). Sessions name theirs in SessionItem.personaId; absent (or
+// no longer defined) means DEFAULT_PERSONA. PERSONAS_FILE adds personas from
+// a JSON array, replacing built-ins with the same id.
+export interface Persona extends PersonaInfo {
+  instructions: string;
+}
+
+const BUILTIN_PERSONAS: Persona[] = [
+  {
+    id: "assistant",
+    name: "通用助理",
+    description: "日常问答，可使用全部工具",
+    instructions:
+      "你是一个简洁友好的助理。若用户询问“今天适合去哪玩”，先调用 get_weather 获取天气（若未指定地点，默认使用“上海”），再调用 suggest_play_spot，传入上一条工具返回的 temperature，最后给出简短建议。",
+  },
+  {
+    id: "translator",
+    name: "翻译助手",
+    description: "中英互译，不使用工具",
+    instructions:
+      "你是专业的翻译。用户发送中文时译为英文，发送其他语言时译为中文；只输出译文，保留原文的格式与语气。",
+    temperature: 0.2,
+    tools: [],
+  },
+  {
+    id: "writer",
+    name: "写作助手",
+    description: "润色与创作，回答更发散",
+    instructions:
+      "你是一位写作助手，帮助用户构思、扩写和润色文字。给出可直接使用的文本，必要时附一两句修改说明。",
+    temperature: 0.9,
+    maxOutputTokens: 2000,
+    tools: [],
+  },
+];
+
+export const DEFAULT_PERSONA = process.env.DEFAULT_PERSONA || "assistant";
+
+export interface PersonaRegistry {
+  list(): PersonaInfo[];
+  has(id: string): boolean;
+  /** The persona `id` names, or the default one. */
+  get(id?: string): Persona;
+  /** The agent answering as `persona` (built once per persona). */
+  agent(persona: Persona): Agent;
+}
+
+function isPersona(value: unknown): value is Persona {
+  const p = value as Persona | undefined;
+  return (
+    !!p &&
+    typeof p.id === "string" &&
+    !!p.id &&
+    typeof p.name === "string" &&
+    typeof p.instructions === "string" &&
+    (p.model === undefined || typeof p.model === "string") &&
+    (p.temperature === undefined || typeof p.temperature === "number") &&
+    (p.maxOutputTokens === undefined ||
+      typeof p.maxOutputTokens === "number") &&
+    (p.tools === undefined ||
+      (Array.isArray(p.tools) && p.tools.every((t) => typeof t === "string")))
+  );
+}
+
+function readPersonaFile(file: string): Persona[] {
+  const raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  if (!Array.isArray(raw)) throw new Error(`${file}: expected an array`);
+  return raw.filter((p, i) => {
+    if (isPersona(p)) return true;
+    // eslint-disable-next-line no-console
+    console.warn(`Persona #${i} in ${file} is invalid; skipped.`);
+    return false;
+  });
+}
+
+export function loadPersonaRegistry(
+  file: string | undefined = process.env.PERSONAS_FILE
+): PersonaRegistry {
+  const personas = new Map<string, Persona>();
+  for (const p of BUILTIN_PERSONAS) personas.set(p.id, p);
+  if (file) {
+    for (const p of readPersonaFile(path.resolve(file))) personas.set(p.id, p);
+  }
+  if (!personas.has(DEFAULT_PERSONA)) {
+    throw new Error(`DEFAULT_PERSONA "${DEFAULT_PERSONA}" is not defined`);
+  }
+  const agents = new Map<string, Agent>();
+
+  return {
+    list() {
+      return [...personas.values()].map(({ instructions, ...info }) => info);
+    },
+    has(id) {
+      return personas.has(id);
+    },
+    get(id) {
+      return personas.get(id ?? DEFAULT_PERSONA) ?? personas.get(DEFAULT_PERSONA)!;
+    },
+    agent(persona) {
+      let agent = agents.get(persona.id);
+      if (!agent) {
+        agent = new Agent({
+          name: persona.name,
+          instructions: persona.instructions,
+          model: createModel(persona.model || AI_MODEL),
+          temperature: persona.temperature,
+          maxOutputTokens: persona.maxOutputTokens,
+          // Tools are passed per call: each session may allow a subset
+        });
+        agents.set(persona.id, agent);
+      }
+      return agent;
+    },
+  };
+}
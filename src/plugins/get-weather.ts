@@ -0,0 +1,25 @@
+import { createTool } from "@voltagent/core";
+import { z } from "zod";
+import { sleep } from "../tools";
+
+export default createTool({
+  name: "get_weather",
+  description: "Get the current weather for a specific location (mock).",
+  parameters: z.object({
+    location: z.string().describe("City name, e.g., 上海/北京"),
+  }),
+  execute: async ({ location }, options) => {
+    // sleep 5s
+    await sleep(5000, options?.toolContext?.abortSignal);
+    // Mocked weather; random-ish but bounded
+    const temp = Math.round(18 + Math.random() * 12); // 18-30°C
+    const conditions = ["sunny", "cloudy", "rainy"][
+      Math.floor(Math.random() * 3)
+    ];
+    // eslint-disable-next-line no-console
+    console.log(
+      `[tool:get_weather] location=${location} -> temp=${temp}, cond=${conditions}`
+    );
+    return { temperature: temp, conditions, location };
+  },
+});
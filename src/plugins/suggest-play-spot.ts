@@ -0,0 +1,23 @@
+import { createTool } from "@voltagent/core";
+import { z } from "zod";
+import { sleep } from "../tools";
+
+export default createTool({
+  name: "suggest_play_spot",
+  description:
+    "Suggest a place to play based on temperature (mock, random pick).",
+  parameters: z.object({
+    temperature: z.number().describe("Temperature in Celsius"),
+  }),
+  execute: async ({ temperature }, options) => {
+    // sleep 5s
+    await sleep(5000, options?.toolContext?.abortSignal);
+    const candidates = ["外滩", "颐和园", "西湖"];
+    const place = candidates[Math.floor(Math.random() * candidates.length)];
+    // eslint-disable-next-line no-console
+    console.log(
+      `[tool:suggest_play_spot] temp=${temperature} -> place=${place}`
+    );
+    return { place, recommendedFor: temperature };
+  },
+});
@@ -1,8 +1,68 @@
 (() => {
+  type ToolCall = { toolCallId: string; name: string; input?: unknown; startedAt: number };
+  type ToolResult = {
+    toolCallId: string;
+    name: string;
+    output?: unknown;
+    error?: string;
+    startedAt: number;
+    endedAt: number;
+  };
   type MessageBody =
     | { type: 'text'; content: string }
-    | { type: 'tool_use'; content: string }
-    | { type: 'tool_result'; content: string };
+    | { type: 'tool_use'; content: string; toolCallId?: string; input?: unknown; startedAt?: number }
+    | {
+        type: 'tool_result';
+        content: string;
+        toolCallId?: string;
+        output?: unknown;
+        error?: string;
+        startedAt?: number;
+        endedAt?: number;
+      }
+    | {
+        type: 'tool_approval';
+        content: string;
+        toolCallId: string;
+        input: unknown;
+        status: ApprovalStatus;
+        reason?: string;
+      }
+    | { type: 'attachment'; content: string; attachmentId: string; mimeType: string; size: number }
+    | { type: 'error'; content: string; kind: AIErrorKind; retryable: boolean; text?: string };
+  type AIErrorKind = 'auth' | 'rate_limit' | 'timeout' | 'tool' | 'network' | 'unknown';
+  type AIError = {
+    id: string;
+    sessionId: string;
+    kind: AIErrorKind;
+    message: string;
+    retryable: boolean;
+    text?: string;
+    retryInMs?: number;
+    usage?: MessageUsage;
+  };
+  type MessageUsage = {
+    model: string;
+    promptTokens?: number;
+    completionTokens?: number;
+    totalTokens?: number;
+    costUsd?: number;
+    firstTokenMs?: number;
+    durationMs: number;
+    steps?: number;
+    tools: { toolCallId: string; name: string; durationMs: number; error?: boolean }[];
+  };
+  type AttachmentInfo = { id: string; name: string; mimeType: string; size: number };
+  type ApprovalStatus = 'pending' | 'approved' | 'edited' | 'denied' | 'expired' | 'cancelled';
+  type ApprovalRequest = { toolCallId: string; name: string; input: unknown; requestedAt: number };
+  type ApprovalResult = {
+    toolCallId: string;
+    name: string;
+    status: ApprovalStatus;
+    input?: unknown;
+    reason?: string;
+    error?: string;
+  };
   type Message = {
     id: string;
     to: string;
@@ -12,23 +72,97 @@
     deliveredAt?: number;
     role: 'user' | 'ai' | 'system';
     message: MessageBody;
+    status?: 'complete' | 'aborted';
+    parentId?: string | null;
+    usage?: MessageUsage;
+    reasoning?: string;
+    sources?: SourceRef[];
   };
+  type SourceRef = {
+    id: string;
+    kind: 'url' | 'document';
+    url?: string;
+    title?: string;
+    mediaType?: string;
+    filename?: string;
+  };
+  type SearchHit = {
+    messageId: string | null;
+    kind: 'title' | 'text' | 'tool';
+    role?: Message['role'];
+    snippet: string;
+    highlights: Array<[number, number]>;
+    timestamp: number;
+  };
+  type SearchResult = { sessionId: string; title: string; score: number; hits: SearchHit[] };
+  type QueuedSend = { id: string; text: string; attachments?: AttachmentInfo[]; queuedAt: number };
+  type LimitReason = 'session_busy' | 'queue_full' | 'concurrent_streams' | 'rate_limit' | 'daily_tokens';
+  type SessionItem = {
+    id: string;
+    title: string;
+    updatedAt: number;
+    pinned?: boolean;
+    archived?: boolean;
+    tools?: string[];
+    personaId?: string;
+  };
+  type ToolInfo = { name: string; description: string };
+  type PersonaInfo = { id: string; name: string; description?: string; tools?: string[] };
 
   let socket: any = null;
   const els = {
     status: document.getElementById('status') as HTMLSpanElement,
     btnSend: document.getElementById('btnSend') as HTMLButtonElement,
+    btnStop: document.getElementById('btnStop') as HTMLButtonElement,
     msgInput: document.getElementById('msgInput') as HTMLInputElement,
     messages: document.getElementById('messages') as HTMLUListElement,
+    queued: document.getElementById('queued') as HTMLUListElement,
     btnNewSession: document.getElementById('btnNewSession') as HTMLButtonElement,
     sessionList: document.getElementById('sessionList') as HTMLUListElement,
+    btnLogout: document.getElementById('btnLogout') as HTMLButtonElement,
+    login: document.getElementById('login') as HTMLDivElement,
+    loginForm: document.getElementById('loginForm') as HTMLFormElement,
+    loginUser: document.getElementById('loginUser') as HTMLInputElement,
+    loginPass: document.getElementById('loginPass') as HTMLInputElement,
+    loginError: document.getElementById('loginError') as HTMLDivElement,
+    exportFormat: document.getElementById('exportFormat') as HTMLSelectElement,
+    btnExportAll: document.getElementById('btnExportAll') as HTMLButtonElement,
+    btnImport: document.getElementById('btnImport') as HTMLButtonElement,
+    importFile: document.getElementById('importFile') as HTMLInputElement,
+    searchInput: document.getElementById('searchInput') as HTMLInputElement,
+    searchResults: document.getElementById('searchResults') as HTMLUListElement,
+    toolBar: document.getElementById('toolBar') as HTMLDivElement,
+    btnAttach: document.getElementById('btnAttach') as HTMLButtonElement,
+    fileInput: document.getElementById('fileInput') as HTMLInputElement,
+    pendingFiles: document.getElementById('pendingFiles') as HTMLDivElement,
   };
 
   const aiBubbles = new Map<string, HTMLLIElement>(); // messageId -> li
+  const streamSeq = new Map<string, number>(); // messageId -> last applied chunk seq
+  const aiTexts = new Map<string, string>(); // messageId -> Markdown shown so far
+  const pendingRenders = new Set<string>(); // messageIds with unrendered deltas
+  let renderFrame = 0;
+  const markdown = (window as any).chatMarkdown as { render: (target: HTMLElement, text: string) => void };
+  const runningStreams = new Map<string, string>(); // messageId -> sessionId
+  const toolCards = new Map<string, HTMLLIElement>(); // toolCallId -> card
+  let sessionItems: SessionItem[] = [];
+  let availableTools: ToolInfo[] = [];
+  let personas: PersonaInfo[] = [];
+  let defaultPersonaId = '';
+  let newSessionPersonaId = ''; // picked while no session is open
+  let pendingFiles: AttachmentInfo[] = []; // uploaded, sent with the next message
+  const fileUrls = new Map<string, Promise<string | null>>(); // attachmentId -> blob URL
+  let siblingsOf: Record<string, string[]> = {}; // messageId -> its siblings (branch nav)
+  let lastNodeId: string | null = null; // last user/AI message shown; parent of the next send
   let currentSessionId: string | null = null;
-  function addSystemNote(text: string) {
+  let pendingScrollId: string | null = null; // search hit to reveal once its session loads
+  let pendingBranchSwitched = false;
+  const UNREAD_KEY = 'ai_chat_unread';
+  // sessionId -> replies that arrived while another session was open
+  let unread: Record<string, string[]> = loadUnread();
+  function addSystemNote(text: string, warning = false) {
     const li = document.createElement('li');
-    li.className = 'system';
+    li.className = warning ? 'system warning' : 'system';
     li.textContent = text;
     els.messages.appendChild(li);
     li.scrollIntoView({ behavior: 'smooth', block: 'end' });
@@ -47,10 +181,53 @@
       .replace(/'/g, '&#039;');
   }
 
-  function addUserBubble(text: string) {
+  // Edit / regenerate buttons and "‹ 2/3 ›" sibling navigation under a bubble
+  function renderBubbleActions(li: HTMLLIElement, id: string, role: 'user' | 'ai') {
+    li.querySelector('.bubble-actions')?.remove();
+    const bar = document.createElement('div');
+    bar.className = 'bubble-actions';
+    const siblings = siblingsOf[id];
+    if (siblings && siblings.length > 1) {
+      const idx = siblings.indexOf(id);
+      const nav = (label: string, target: string | undefined) => {
+        const btn = document.createElement('button');
+        btn.textContent = label;
+        btn.disabled = !target;
+        btn.addEventListener('click', () => {
+          if (target) socket.emit('branch_switch', { sessionId: currentSessionId, messageId: target });
+        });
+        return btn;
+      };
+      const pos = document.createElement('span');
+      pos.textContent = `${idx + 1}/${siblings.length}`;
+      bar.append(nav('‹', siblings[idx - 1]), pos, nav('›', siblings[idx + 1]));
+    }
+    const action = document.createElement('button');
+    if (role === 'user') {
+      action.textContent = '编辑';
+      action.addEventListener('click', () => {
+        const current = (li.querySelector('.user-text') as HTMLDivElement).textContent || '';
+        const text = window.prompt('编辑消息（将从此处开始新的分支）', current);
+        if (text && text.trim() && text.trim() !== current) {
+          socket.emit('message_edit', { sessionId: currentSessionId, messageId: id, text: text.trim() });
+        }
+      });
+    } else {
+      action.textContent = '重新生成';
+      action.addEventListener('click', () => {
+        socket.emit('ai_regenerate', { sessionId: currentSessionId, messageId: id });
+      });
+    }
+    bar.appendChild(action);
+    li.appendChild(bar);
+  }
+
+  function addUserBubble(text: string, id: string) {
     const li = document.createElement('li');
     li.className = 'self';
-    li.innerHTML = `<div>${escapeHtml(text)}</div>`;
+    li.dataset.id = id;
+    li.innerHTML = `<div class="user-text">${escapeHtml(text)}</div>`;
+    renderBubbleActions(li, id, 'user');
     els.messages.appendChild(li);
     li.scrollIntoView({ behavior: 'smooth', block: 'end' });
   }
@@ -60,6 +237,7 @@
     if (!li) {
       li = document.createElement('li');
       li.className = 'incoming';
+      li.dataset.id = id;
       li.innerHTML = `<div class="ai-text"></div>`;
       els.messages.appendChild(li);
       aiBubbles.set(id, li);
@@ -67,129 +245,1112 @@
     return li;
   }
 
+  // AI text is Markdown (markdown.ts); keep the raw source per bubble so
+  // streamed deltas re-render at most once a frame
+  function renderAIText(id: string) {
+    const li = ensureAIBubble(id);
+    markdown.render(li.querySelector('.ai-text') as HTMLDivElement, aiTexts.get(id) ?? '');
+    li.scrollIntoView({ behavior: 'smooth', block: 'end' });
+  }
+
   function setAIBubbleText(id: string, text: string) {
+    aiTexts.set(id, text);
+    pendingRenders.delete(id);
+    renderAIText(id);
+  }
+
+  function appendAIBubbleText(id: string, delta: string) {
+    aiTexts.set(id, (aiTexts.get(id) ?? '') + delta);
+    pendingRenders.add(id);
+    if (renderFrame) return;
+    renderFrame = requestAnimationFrame(() => {
+      renderFrame = 0;
+      pendingRenders.forEach((pending) => renderAIText(pending));
+      pendingRenders.clear();
+    });
+  }
+
+  // The model's thinking: a collapsible section above the answer, open while
+  // it streams and folded once the answer starts
+  function setAIReasoning(id: string, text: string) {
+    const li = ensureAIBubble(id);
+    let box = li.querySelector('.ai-thinking') as HTMLDetailsElement | null;
+    if (!box) {
+      box = document.createElement('details');
+      box.className = 'ai-thinking';
+      box.open = true;
+      box.innerHTML = '<summary>思考中…</summary><div class="thinking-text"></div>';
+      li.insertBefore(box, li.querySelector('.ai-text'));
+    }
+    (box.querySelector('.thinking-text') as HTMLDivElement).textContent = text;
+  }
+
+  function appendAIReasoning(id: string, delta: string) {
+    const current = aiBubbles.get(id)?.querySelector('.thinking-text')?.textContent ?? '';
+    setAIReasoning(id, current + delta);
+  }
+
+  function foldAIReasoning(id: string) {
+    const box = aiBubbles.get(id)?.querySelector('.ai-thinking') as HTMLDetailsElement | null;
+    if (!box || box.dataset.folded) return;
+    box.dataset.folded = '1';
+    box.open = false;
+    (box.querySelector('summary') as HTMLElement).textContent = '思考过程';
+  }
+
+  // Cited sources as a numbered list under the answer
+  function addAISources(id: string, sources: SourceRef[]) {
+    if (sources.length === 0) return;
     const li = ensureAIBubble(id);
-    const textDiv = li.querySelector('.ai-text') as HTMLDivElement;
-    textDiv.innerHTML = escapeHtml(text);
+    let list = li.querySelector('.ai-sources') as HTMLOListElement | null;
+    if (!list) {
+      list = document.createElement('ol');
+      list.className = 'ai-sources';
+      (li.querySelector('.ai-text') as HTMLDivElement).after(list);
+    }
+    const shown = new Set(Array.from(list.children).map((item) => (item as HTMLElement).dataset.id));
+    sources.forEach((s) => {
+      if (shown.has(s.id)) return;
+      const item = document.createElement('li');
+      item.dataset.id = s.id;
+      const label = s.title || s.filename || s.url || s.id;
+      if (s.url && /^https?:/i.test(s.url)) {
+        const a = document.createElement('a');
+        a.href = s.url;
+        a.target = '_blank';
+        a.rel = 'noopener noreferrer';
+        a.textContent = label;
+        a.title = s.url;
+        item.appendChild(a);
+      } else {
+        item.textContent = `📄 ${label}`;
+      }
+      list!.appendChild(item);
+    });
+  }
+
+  // A stored reply's thinking and sources
+  function renderReplyExtras(m: Message) {
+    if (m.reasoning) {
+      setAIReasoning(m.id, m.reasoning);
+      foldAIReasoning(m.id);
+    }
+    addAISources(m.id, m.sources ?? []);
+  }
+
+  function formatSize(bytes: number): string {
+    return bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  }
+
+  // Files need the auth header, so they are fetched once into blob URLs
+  function fileUrl(id: string, mimeType: string): Promise<string | null> {
+    let url = fileUrls.get(id);
+    if (!url) {
+      url = apiFetch(`/api/attachments/${encodeURIComponent(id)}`)
+        .then(async (res) => (res.ok ? URL.createObjectURL(new Blob([await res.arrayBuffer()], { type: mimeType })) : null))
+        .catch(() => null);
+      fileUrls.set(id, url);
+    }
+    return url;
+  }
+
+  // Thumbnail for images, a chip for other files; click opens / downloads
+  function renderFile(file: AttachmentInfo): HTMLElement {
+    const link = document.createElement('a');
+    link.className = 'file-chip';
+    link.title = `${file.name}（${formatSize(file.size)}）`;
+    if (file.mimeType.startsWith('image/')) {
+      const img = document.createElement('img');
+      img.alt = file.name;
+      link.classList.add('image');
+      link.appendChild(img);
+      fileUrl(file.id, file.mimeType).then((url) => {
+        if (url) img.src = url;
+        else link.textContent = `🖼️ ${file.name}（已不可用）`;
+      });
+    } else {
+      link.textContent = `📄 ${file.name} · ${formatSize(file.size)}`;
+    }
+    link.addEventListener('click', async (e) => {
+      e.preventDefault();
+      const url = await fileUrl(file.id, file.mimeType);
+      if (!url) return addSystemNote(`附件 ${file.name} 已不可用`, true);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = file.name;
+      a.target = '_blank';
+      a.click();
+    });
+    return link;
+  }
+
+  // Attachment records render inside the bubble of the message they came with
+  function addAttachment(m: Message) {
+    if (m.message.type !== 'attachment' || !m.parentId) return;
+    const li = els.messages.querySelector(`[data-id="${CSS.escape(m.parentId)}"]`);
+    if (!li) return;
+    let box = li.querySelector('.attachments');
+    if (!box) {
+      box = document.createElement('div');
+      box.className = 'attachments';
+      li.insertBefore(box, li.querySelector('.bubble-actions'));
+    }
+    const { attachmentId, content, mimeType, size } = m.message;
+    box.appendChild(renderFile({ id: attachmentId, name: content, mimeType, size }));
+  }
+
+  // Tool calls render as expandable cards, paired with their result by toolCallId
+  function formatJson(value: unknown): string {
+    try {
+      return JSON.stringify(value, null, 2) ?? '';
+    } catch {
+      return String(value);
+    }
+  }
+
+  function addToolSection(card: HTMLLIElement, label: string, value: string) {
+    const body = card.querySelector('.tool-body') as HTMLDivElement;
+    const title = document.createElement('div');
+    title.className = 'tool-label';
+    title.textContent = label;
+    const pre = document.createElement('pre');
+    pre.textContent = value;
+    body.append(title, pre);
+  }
+
+  function addToolCallCard(call: ToolCall): HTMLLIElement {
+    let card = toolCards.get(call.toolCallId);
+    if (card) {
+      // An approval request may have created the card before the call arrived
+      if (call.input !== undefined && !card.dataset.input) {
+        card.dataset.input = '1';
+        dropToolInputDraft(card);
+        addToolSection(card, '参数', formatJson(call.input));
+      }
+      return card;
+    }
+    card = document.createElement('li');
+    card.className = 'system tool-card';
+    card.innerHTML = `<details><summary></summary><div class="tool-body"></div></details>`;
+    (card.querySelector('summary') as HTMLElement).textContent = `🔧 ${call.name}（进行中…）`;
+    if (call.input !== undefined) {
+      card.dataset.input = '1';
+      addToolSection(card, '参数', formatJson(call.input));
+    }
+    toolCards.set(call.toolCallId, card);
+    els.messages.appendChild(card);
+    card.scrollIntoView({ behavior: 'smooth', block: 'end' });
+    return card;
+  }
+
+  // Arguments streaming in before the call: a draft section, replaced by the
+  // parsed input once ai_tool_call arrives
+  function appendToolInput(p: { toolCallId: string; name: string; delta: string }) {
+    const card = addToolCallCard({ toolCallId: p.toolCallId, name: p.name, startedAt: Date.now() });
+    if (card.dataset.input) return; // the call already arrived
+    let draft = card.querySelector('.tool-draft') as HTMLPreElement | null;
+    if (!draft) {
+      addToolSection(card, '参数（生成中…）', '');
+      draft = card.querySelector('.tool-body pre:last-child') as HTMLPreElement;
+      draft.classList.add('tool-draft');
+      (card.querySelector('details') as HTMLDetailsElement).open = true;
+    }
+    draft.textContent += p.delta;
+  }
+
+  function dropToolInputDraft(card: HTMLLIElement) {
+    const draft = card.querySelector('.tool-draft');
+    if (!draft) return;
+    draft.previousElementSibling?.remove(); // its label
+    draft.remove();
+  }
+
+  function setToolResultCard(result: ToolResult) {
+    const card = addToolCallCard({ toolCallId: result.toolCallId, name: result.name, startedAt: result.startedAt });
+    if (card.dataset.result) return; // delivered again
+    card.dataset.result = '1';
+    const secs = ((result.endedAt - result.startedAt) / 1000).toFixed(1);
+    const summary = card.querySelector('summary') as HTMLElement;
+    if (result.error) {
+      summary.textContent = `❌ ${result.name} 出错 · ${secs}s`;
+      addToolSection(card, '错误', result.error);
+      card.classList.add('error');
+    } else {
+      summary.textContent = `✅ ${result.name} · ${secs}s`;
+      addToolSection(card, '结果', formatJson(result.output));
+    }
+  }
+
+  // A paused tool call: editable arguments with approve / deny buttons
+  function showApprovalRequest(req: ApprovalRequest) {
+    const card = addToolCallCard({ toolCallId: req.toolCallId, name: req.name, startedAt: req.requestedAt });
+    (card.querySelector('summary') as HTMLElement).textContent = `✋ ${req.name}（等待批准）`;
+    card.classList.add('awaiting');
+    card.querySelector('.approval')?.remove();
+    const box = document.createElement('div');
+    box.className = 'approval';
+    const args = document.createElement('textarea');
+    args.value = formatJson(req.input);
+    args.rows = Math.min(args.value.split('\n').length, 8);
+    const approve = document.createElement('button');
+    approve.textContent = '批准';
+    approve.addEventListener('click', () => {
+      let input: unknown;
+      try {
+        input = JSON.parse(args.value);
+      } catch {
+        addSystemNote('⚠️ 参数不是有效的 JSON', true);
+        return;
+      }
+      const edited = JSON.stringify(input) !== JSON.stringify(req.input);
+      socket.emit('tool_approval', {
+        sessionId: currentSessionId,
+        toolCallId: req.toolCallId,
+        decision: 'approve',
+        input: edited ? input : undefined,
+      });
+    });
+    const deny = document.createElement('button');
+    deny.textContent = '拒绝';
+    deny.className = 'deny';
+    deny.addEventListener('click', () => {
+      const reason = window.prompt('拒绝理由（可留空，会告诉模型）', '');
+      if (reason === null) return;
+      socket.emit('tool_approval', {
+        sessionId: currentSessionId,
+        toolCallId: req.toolCallId,
+        decision: 'deny',
+        reason: reason.trim() || undefined,
+      });
+    });
+    const label = document.createElement('div');
+    label.className = 'tool-label';
+    label.textContent = '该工具需要你的批准才会执行，可先修改参数：';
+    box.append(label, args, approve, deny);
+    card.appendChild(box);
+    card.scrollIntoView({ behavior: 'smooth', block: 'end' });
+  }
+
+  const APPROVAL_LABELS: Record<ApprovalStatus, string> = {
+    pending: '等待批准',
+    approved: '已批准',
+    edited: '已修改参数并批准',
+    denied: '已拒绝',
+    expired: '审批已过期',
+    cancelled: '审批已取消',
+  };
+
+  function setApprovalResult(result: ApprovalResult) {
+    const card = addToolCallCard({ toolCallId: result.toolCallId, name: result.name, startedAt: Date.now() });
+    card.classList.remove('awaiting');
+    card.querySelector('.approval')?.remove();
+    const summary = card.querySelector('summary') as HTMLElement;
+    if (summary.textContent?.startsWith('✋')) {
+      const running = result.status === 'approved' || result.status === 'edited';
+      summary.textContent = `🔧 ${result.name}（${running ? '进行中…' : APPROVAL_LABELS[result.status]}）`;
+    }
+    const reason = result.reason ? `：${result.reason}` : '';
+    addToolSection(card, '审批', APPROVAL_LABELS[result.status] + reason);
+    if (result.status === 'edited') addToolSection(card, '修改后的参数', formatJson(result.input));
+  }
+
+  // "gpt-5 · 1234 tokens · 首字 0.8s · 用时 3.4s · $0.0012" under a reply
+  function renderUsage(id: string, usage?: MessageUsage) {
+    if (!usage) return;
+    const li = ensureAIBubble(id);
+    li.querySelector('.usage')?.remove();
+    const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+    const parts = [usage.model.replace(/^[^:]*:/, '')];
+    if (usage.totalTokens !== undefined) parts.push(`${usage.totalTokens} tokens`);
+    if (usage.firstTokenMs !== undefined) parts.push(`首字 ${seconds(usage.firstTokenMs)}`);
+    parts.push(`用时 ${seconds(usage.durationMs)}`);
+    if (usage.steps && usage.steps > 1) parts.push(`${usage.steps} 步`);
+    if (usage.costUsd !== undefined) parts.push(`$${usage.costUsd.toFixed(4)}`);
+    const meta = document.createElement('span');
+    meta.className = 'meta usage';
+    meta.textContent = parts.join(' · ');
+    meta.title = [
+      `输入 ${usage.promptTokens ?? '-'} / 输出 ${usage.completionTokens ?? '-'} tokens`,
+      ...usage.tools.map((t) => `🔧 ${t.name} ${seconds(t.durationMs)}${t.error ? '（出错）' : ''}`),
+    ].join('\n');
+    li.appendChild(meta);
+  }
+
+  function markAIBubbleAborted(id: string) {
+    const li = ensureAIBubble(id);
+    if (li.querySelector('.meta')) return;
+    const meta = document.createElement('span');
+    meta.className = 'meta';
+    meta.textContent = '（已停止生成）';
+    li.appendChild(meta);
+  }
+
+  // A failed reply: the reason under the bubble, with a retry button once
+  // the server has given up (a pending automatic retry has none)
+  function showAIError(err: AIError) {
+    const li = ensureAIBubble(err.id);
+    clearAIError(err.id);
+    const note = document.createElement('div');
+    note.className = 'ai-error';
+    if (err.retryInMs) {
+      note.textContent = `⚠️ ${err.message}，${Math.ceil(err.retryInMs / 1000)} 秒后自动重试…`;
+    } else {
+      note.textContent = `⚠️ ${err.message}`;
+      const retry = document.createElement('button');
+      retry.textContent = '重试';
+      retry.addEventListener('click', () => {
+        retry.disabled = true;
+        socket.emit('ai_retry', { sessionId: err.sessionId, messageId: err.id });
+      });
+      note.appendChild(retry);
+    }
+    li.appendChild(note);
     li.scrollIntoView({ behavior: 'smooth', block: 'end' });
   }
 
-  function ensureUserId(): string {
-    const key = 'ai_chat_user_id';
-    const existing = localStorage.getItem(key);
-    if (existing) return existing;
-    const anyWin = window as any;
-    const gen = anyWin.crypto?.randomUUID?.() || ('u-' + Math.random().toString(36).slice(2));
-    localStorage.setItem(key, gen);
-    return gen;
+  function clearAIError(id: string) {
+    aiBubbles.get(id)?.querySelector('.ai-error')?.remove();
+  }
+
+  // Messages waiting for the current reply, each with a cancel button
+  function renderQueue(items: QueuedSend[]) {
+    els.queued.innerHTML = '';
+    items.forEach((q) => {
+      const li = document.createElement('li');
+      li.className = 'self';
+      const files = q.attachments?.length ? `（附 ${q.attachments.length} 个文件）` : '';
+      li.innerHTML = `<div>${escapeHtml(q.text)}${files}</div><span class="meta">排队中…<button>取消</button></span>`;
+      (li.querySelector('button') as HTMLButtonElement).addEventListener('click', () => {
+        socket.emit('ai_queue_cancel', { sessionId: currentSessionId, id: q.id });
+      });
+      els.queued.appendChild(li);
+    });
+  }
+
+  // A session's persona; unset or unknown ids fall back to the default
+  function personaOf(session?: SessionItem): PersonaInfo | undefined {
+    const id = session ? session.personaId : newSessionPersonaId;
+    return personas.find((p) => p.id === id) ?? personas.find((p) => p.id === defaultPersonaId);
+  }
+
+  function renderPersonaSelect(session?: SessionItem) {
+    const label = document.createElement('label');
+    label.textContent = '助手：';
+    const select = document.createElement('select');
+    personas.forEach((p) => {
+      const option = document.createElement('option');
+      option.value = p.id;
+      option.textContent = p.name;
+      option.title = p.description ?? '';
+      select.appendChild(option);
+    });
+    select.value = personaOf(session)?.id ?? '';
+    select.addEventListener('change', () => {
+      if (!session) {
+        newSessionPersonaId = select.value;
+        renderToolBar();
+        return;
+      }
+      socket.emit('session_persona', { sessionId: session.id, personaId: select.value });
+    });
+    label.appendChild(select);
+    els.toolBar.appendChild(label);
+  }
+
+  // Persona picker, then one checkbox per loaded tool reflecting the open
+  // session's selection (or its persona's defaults)
+  function renderToolBar() {
+    els.toolBar.innerHTML = '';
+    const session = sessionItems.find((s) => s.id === currentSessionId);
+    els.toolBar.hidden = availableTools.length === 0 && personas.length === 0;
+    if (personas.length > 0) renderPersonaSelect(session);
+    if (availableTools.length === 0) return;
+    const allowed = session?.tools ?? personaOf(session)?.tools;
+    const label = document.createElement('span');
+    label.textContent = '工具：';
+    els.toolBar.appendChild(label);
+    availableTools.forEach((tool) => {
+      const item = document.createElement('label');
+      item.title = tool.description;
+      const box = document.createElement('input');
+      box.type = 'checkbox';
+      box.checked = !allowed || allowed.includes(tool.name);
+      box.disabled = !session;
+      box.addEventListener('change', () => {
+        const boxes = Array.from(els.toolBar.querySelectorAll('input[type="checkbox"]')) as HTMLInputElement[];
+        const tools = availableTools.filter((_, i) => boxes[i].checked).map((t) => t.name);
+        socket.emit('session_tools', { sessionId: currentSessionId, tools });
+      });
+      item.append(box, ' ' + tool.name);
+      els.toolBar.appendChild(item);
+    });
+  }
+
+  // Stop button is visible only while the open session has a running reply
+  function updateStopButton() {
+    const running = [...runningStreams.values()].some((sid) => sid === currentSessionId);
+    els.btnStop.hidden = !running;
+  }
+
+  function loadUnread(): Record<string, string[]> {
+    try {
+      return JSON.parse(localStorage.getItem(UNREAD_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  // Count a reply toward its session's badge (once, even if re-delivered)
+  function markUnread(sessionId: string, messageId: string) {
+    if (sessionId === currentSessionId) return;
+    const ids = unread[sessionId] ?? [];
+    if (ids.includes(messageId)) return;
+    unread[sessionId] = [...ids, messageId];
+    localStorage.setItem(UNREAD_KEY, JSON.stringify(unread));
+    renderSessionList();
+  }
+
+  function clearUnread(sessionId: string) {
+    if (!unread[sessionId]) return;
+    delete unread[sessionId];
+    localStorage.setItem(UNREAD_KEY, JSON.stringify(unread));
   }
-  const userId = ensureUserId();
 
-  function connect(userId: string) {
+  // Identity comes from a signed token issued by POST /auth/token
+  const TOKEN_KEY = 'ai_chat_token';
+
+  function showLogin(message = '') {
+    if (socket) {
+      try { socket.disconnect(); } catch {}
+      socket = null;
+    }
+    els.loginError.textContent = message;
+    els.login.hidden = false;
+    setStatus('未登录');
+  }
+
+  async function login(username: string, password: string) {
+    const res = await fetch('/auth/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password }),
+    });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok || !body.token) {
+      showLogin(body.error || '登录失败');
+      return;
+    }
+    localStorage.setItem(TOKEN_KEY, body.token);
+    els.login.hidden = true;
+    els.loginPass.value = '';
+    connect(body.token);
+  }
+
+  // Authenticated call to the HTTP API (export/import)
+  function apiFetch(url: string, init: RequestInit = {}) {
+    const headers = new Headers(init.headers);
+    headers.set('Authorization', `Bearer ${localStorage.getItem(TOKEN_KEY) || ''}`);
+    return fetch(url, { ...init, headers });
+  }
+
+  // Download an export (one session or all) in the format picked in the sidebar
+  async function exportSessions(sessionId?: string) {
+    const format = els.exportFormat.value;
+    const url = sessionId
+      ? `/api/sessions/${encodeURIComponent(sessionId)}/export?format=${format}`
+      : `/api/export?format=${format}`;
+    const res = await apiFetch(url);
+    if (!res.ok) {
+      addSystemNote('导出失败');
+      return;
+    }
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(await res.blob());
+    link.download = `${sessionId ? `session-${sessionId}` : 'sessions'}.${format}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(link.href), 0);
+  }
+
+  // Import a JSON/JSONL export; the server pushes the new session_list
+  async function importSessions(file: File) {
+    const res = await apiFetch('/api/import', {
+      method: 'POST',
+      headers: { 'Content-Type': file.name.endsWith('.jsonl') ? 'application/x-ndjson' : 'application/json' },
+      body: await file.text(),
+    });
+    const body = await res.json().catch(() => ({}));
+    addSystemNote(res.ok ? `已导入 ${body.sessions.length} 个会话` : body.error || '导入失败');
+  }
+
+  function logout() {
+    localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(UNREAD_KEY);
+    unread = {};
+    currentSessionId = null;
+    els.messages.innerHTML = '';
+    els.queued.innerHTML = '';
+    els.sessionList.innerHTML = '';
+    pendingFiles = [];
+    renderPendingFiles();
+    aiBubbles.clear();
+    aiTexts.clear();
+    pendingRenders.clear();
+    showLogin();
+  }
+
+  function connect(token: string) {
     if (socket) {
       try { socket.disconnect(); } catch {}
       socket = null;
     }
     const ioClient = (window as any).io;
-    socket = ioClient();
+    socket = ioClient({ auth: { token } });
     setStatus('连接中…');
 
     socket.on('connect', () => {
       setStatus('已连接');
-      socket.emit('register', { userId });
+      socket.emit('register');
+      // Rejoin the open session's room after a reconnect
+      if (currentSessionId) socket.emit('session_open', { sessionId: currentSessionId });
+    });
+
+    socket.on('connect_error', (err: Error) => {
+      if (err.message === 'unauthorized') {
+        localStorage.removeItem(TOKEN_KEY);
+        showLogin('登录已失效，请重新登录');
+      }
     });
 
     socket.on('disconnect', () => setStatus('已断开'));
 
     // Session list and messages
-    socket.on('session_list', (items: { id: string; title: string }[]) => {
-      renderSessionList(items);
-      if (!currentSessionId && items.length > 0) {
-        currentSessionId = items[0].id;
+    socket.on('session_list', (items: SessionItem[]) => {
+      sessionItems = items;
+      // The open session was deleted (here or on another device)
+      if (currentSessionId && !items.some((s) => s.id === currentSessionId)) {
+        currentSessionId = null;
+        els.messages.innerHTML = '';
+        aiBubbles.clear();
+        aiTexts.clear();
+        pendingRenders.clear();
+        updateStopButton();
+      }
+      // Forget badges of deleted sessions
+      for (const id of Object.keys(unread)) {
+        if (!items.some((s) => s.id === id)) clearUnread(id);
+      }
+      const first = items.find((s) => !s.archived);
+      if (!currentSessionId && first) {
+        currentSessionId = first.id;
+        clearUnread(first.id);
         socket.emit('session_open', { sessionId: currentSessionId });
-        renderSessionList(items);
       }
+      renderSessionList();
+      renderToolBar();
+    });
+    socket.on('tool_list', (tools: ToolInfo[]) => {
+      availableTools = tools;
+      renderToolBar();
+    });
+    socket.on('persona_list', (payload: { personas: PersonaInfo[]; defaultId: string }) => {
+      personas = payload.personas;
+      defaultPersonaId = payload.defaultId;
+      renderSessionList();
+      renderToolBar();
     });
-    socket.on('session_messages', (payload: { sessionId: string; messages: Message[] }) => {
+    socket.on('session_messages', (payload: {
+      sessionId: string;
+      messages: Message[];
+      siblings: Record<string, string[]>;
+    }) => {
       if (!currentSessionId || payload.sessionId !== currentSessionId) return;
       els.messages.innerHTML = '';
       aiBubbles.clear();
+      aiTexts.clear();
+      pendingRenders.clear();
+      streamSeq.clear();
+      toolCards.clear();
+      siblingsOf = payload.siblings || {};
+      lastNodeId = null;
       payload.messages.forEach((m) => {
         if (m.message.type === 'text') {
+          lastNodeId = m.id;
           if (m.role === 'user') {
-            addUserBubble(m.message.content || '');
+            addUserBubble(m.message.content || '', m.id);
           } else {
             setAIBubbleText(m.id, m.message.content || '');
+            renderReplyExtras(m);
+            if (m.status === 'aborted') markAIBubbleAborted(m.id);
+            renderUsage(m.id, m.usage);
+            renderBubbleActions(ensureAIBubble(m.id), m.id, 'ai');
           }
         } else if (m.message.type === 'tool_use') {
-          addSystemNote(`🔧 调用工具: ${m.message.content}`);
+          const { toolCallId, content, input, startedAt } = m.message;
+          if (toolCallId) addToolCallCard({ toolCallId, name: content, input, startedAt: startedAt ?? m.timestamp });
+          else addSystemNote(`🔧 调用工具: ${content}`); // records without a trace
         } else if (m.message.type === 'tool_result') {
-          addSystemNote(`✅ 工具完成: ${m.message.content}`);
+          const { toolCallId, content, output, error, startedAt, endedAt } = m.message;
+          if (toolCallId) {
+            setToolResultCard({
+              toolCallId,
+              name: content,
+              output,
+              error,
+              startedAt: startedAt ?? m.timestamp,
+              endedAt: endedAt ?? m.timestamp,
+            });
+          } else {
+            addSystemNote(`✅ 工具完成: ${content}`);
+          }
+        } else if (m.message.type === 'attachment') {
+          addAttachment(m);
+        } else if (m.message.type === 'error') {
+          const { content, kind, retryable, text } = m.message;
+          if (text) setAIBubbleText(m.id, text);
+          renderReplyExtras(m);
+          showAIError({ id: m.id, sessionId: m.sessionId, kind, message: content, retryable });
+          renderUsage(m.id, m.usage);
+        } else if (m.message.type === 'tool_approval' && m.message.status !== 'pending') {
+          // Pending requests are re-sent as ai_tool_approval_request
+          const { toolCallId, content, input, status, reason } = m.message;
+          setApprovalResult({ toolCallId, name: content, input, status, reason });
         }
       });
+      revealPendingMessage();
+    });
+
+    // A new user message in the open session (from this or another tab/device)
+    socket.on('message_added', (m: Message) => {
+      if (!currentSessionId || m.sessionId !== currentSessionId) return;
+      if (m.role === 'user' && m.message.type === 'text') {
+        lastNodeId = m.id;
+        addUserBubble(m.message.content, m.id);
+      } else if (m.message.type === 'attachment') {
+        addAttachment(m);
+      }
+    });
+
+    // Queue and limits
+    socket.on('ai_queue', (payload: { sessionId: string; items: QueuedSend[] }) => {
+      if (!currentSessionId || payload.sessionId !== currentSessionId) return;
+      renderQueue(payload.items);
+    });
+    socket.on('ai_rejected', (payload: {
+      sessionId: string;
+      reason: LimitReason;
+      message: string;
+      retryAfterMs?: number;
+      text?: string;
+    }) => {
+      if (!currentSessionId || payload.sessionId !== currentSessionId) return;
+      const wait = payload.retryAfterMs ? `（约 ${Math.ceil(payload.retryAfterMs / 1000)} 秒后可重试）` : '';
+      addSystemNote(`⚠️ ${payload.message}${wait}`, true);
+      // Give the unsent text back so it isn't lost
+      if (payload.text && !els.msgInput.value) els.msgInput.value = payload.text;
+    });
+
+    socket.on('attachment_error', (payload: { sessionId: string; error: string }) => {
+      addSystemNote(`⚠️ ${payload.error}`, true);
     });
 
     // Streaming lifecycle
     socket.on('ai_started', ({ id, sessionId }: { id: string; sessionId: string }) => {
+      runningStreams.set(id, sessionId);
+      updateStopButton();
       if (!currentSessionId || sessionId !== currentSessionId) return;
+      // A new reply supersedes failed ones still on screen
+      aiBubbles.forEach((li, bubbleId) => {
+        if (bubbleId === id || !li.querySelector('.ai-error')) return;
+        li.remove();
+        aiBubbles.delete(bubbleId);
+        aiTexts.delete(bubbleId);
+      });
       ensureAIBubble(id);
     });
-    socket.on('ai_chunk', ({ id, sessionId, delta }: { id: string; sessionId: string; delta: string }) => {
+    socket.on('ai_chunk', ({ id, sessionId, delta, seq }: { id: string; sessionId: string; delta: string; seq: number }) => {
+      if (!currentSessionId || sessionId !== currentSessionId) return;
+      // Drop chunks already folded into an ai_resume snapshot
+      if (seq <= (streamSeq.get(id) ?? 0)) return;
+      streamSeq.set(id, seq);
+      clearAIError(id);
+      foldAIReasoning(id);
+      appendAIBubbleText(id, delta);
+    });
+    socket.on('ai_reasoning', ({ id, sessionId, delta, seq }: { id: string; sessionId: string; delta: string; seq: number }) => {
       if (!currentSessionId || sessionId !== currentSessionId) return;
-      const li = ensureAIBubble(id);
-      const textDiv = li.querySelector('.ai-text') as HTMLDivElement;
-      textDiv.innerHTML = (textDiv.innerHTML || '') + escapeHtml(delta);
-      li.scrollIntoView({ behavior: 'smooth', block: 'end' });
+      if (seq <= (streamSeq.get(id) ?? 0)) return;
+      streamSeq.set(id, seq);
+      clearAIError(id);
+      appendAIReasoning(id, delta);
     });
-    socket.on('ai_complete', ({ id, sessionId, text }: { id: string; sessionId: string; text: string }) => {
+    socket.on('ai_tool_input', (payload: { sessionId: string; toolCallId: string; name: string; delta: string }) => {
+      if (!currentSessionId || payload.sessionId !== currentSessionId) return;
+      appendToolInput(payload);
+    });
+    socket.on('ai_source', ({ id, sessionId, source }: { id: string; sessionId: string; source: SourceRef }) => {
       if (!currentSessionId || sessionId !== currentSessionId) return;
+      addAISources(id, [source]);
+    });
+    socket.on('ai_resume', (payload: {
+      id: string;
+      sessionId: string;
+      text: string;
+      reasoning: string;
+      sources: SourceRef[];
+      seq: number;
+      tools: { toolCallId: string; name: string; status: 'running' | 'done' | 'error'; startedAt: number }[];
+    }) => {
+      runningStreams.set(payload.id, payload.sessionId);
+      updateStopButton();
+      if (!currentSessionId || payload.sessionId !== currentSessionId) return;
+      streamSeq.set(payload.id, payload.seq);
+      // Cards normally come from session_messages; fill in any still missing
+      payload.tools.forEach((t) => addToolCallCard(t));
+      if (payload.reasoning) setAIReasoning(payload.id, payload.reasoning);
+      if (payload.text) foldAIReasoning(payload.id);
+      setAIBubbleText(payload.id, payload.text);
+      addAISources(payload.id, payload.sources);
+    });
+    // Events carrying a stored record take an ack: the server marks the
+    // record delivered once a tab confirms it, and retries until then
+    socket.on('ai_complete', ({ id, sessionId, text, status, usage }: {
+      id: string;
+      sessionId: string;
+      text: string;
+      status: 'complete' | 'aborted';
+      usage?: MessageUsage;
+    }, ack?: () => void) => {
+      ack?.();
+      runningStreams.delete(id);
+      updateStopButton();
+      if (!currentSessionId || sessionId !== currentSessionId) {
+        markUnread(sessionId, id);
+        return;
+      }
+      streamSeq.delete(id);
+      lastNodeId = id;
+      clearAIError(id);
+      foldAIReasoning(id);
       setAIBubbleText(id, text);
+      if (status === 'aborted') markAIBubbleAborted(id);
+      renderUsage(id, usage);
+      renderBubbleActions(ensureAIBubble(id), id, 'ai');
+    });
+
+    // A failed reply; with retryInMs the server is about to try again
+    socket.on('ai_error', (err: AIError, ack?: () => void) => {
+      ack?.();
+      if (!err.retryInMs) {
+        runningStreams.delete(err.id);
+        updateStopButton();
+      }
+      if (!currentSessionId || err.sessionId !== currentSessionId) {
+        if (!err.retryInMs) markUnread(err.sessionId, err.id);
+        return;
+      }
+      if (!err.retryInMs) {
+        streamSeq.delete(err.id);
+        if (err.text) setAIBubbleText(err.id, err.text);
+      }
+      showAIError(err);
+      renderUsage(err.id, err.usage);
+    });
+
+    // Replies that finished while this user had no tab open
+    socket.on('undelivered_messages', ({ messages }: { messages: Message[] }, ack: () => void) => {
+      ack();
+      messages
+        .filter((m) => m.role === 'ai' && m.message.type === 'text')
+        .forEach((m) => markUnread(m.sessionId, m.id));
+    });
+
+    socket.on('search_results', (payload: { query: string; results: SearchResult[] }) => {
+      if (payload.query !== els.searchInput.value.trim()) return; // stale
+      renderSearchResults(payload.results);
     });
 
     // Tool lifecycle
-    socket.on('ai_tool_call', ({ sessionId, name }: { sessionId: string; name: string }) => {
-      if (!currentSessionId || sessionId !== currentSessionId) return;
-      addSystemNote(`🔧 调用工具: ${name}`);
+    socket.on('ai_tool_call', (payload: ToolCall & { sessionId: string }, ack?: () => void) => {
+      ack?.();
+      if (!currentSessionId || payload.sessionId !== currentSessionId) return;
+      addToolCallCard(payload);
     });
-    socket.on('ai_tool_result', ({ sessionId, name }: { sessionId: string; name: string }) => {
-      if (!currentSessionId || sessionId !== currentSessionId) return;
-      addSystemNote(`✅ 工具完成: ${name}`);
+    socket.on('ai_tool_result', (payload: ToolResult & { sessionId: string }, ack?: () => void) => {
+      ack?.();
+      if (!currentSessionId || payload.sessionId !== currentSessionId) return;
+      setToolResultCard(payload);
+    });
+    socket.on('ai_tool_approval_request', (payload: ApprovalRequest & { sessionId: string }, ack?: () => void) => {
+      ack?.();
+      if (!currentSessionId || payload.sessionId !== currentSessionId) {
+        addSystemNote(`✋ 另一个会话中的工具 ${payload.name} 正在等待批准`, true);
+        return;
+      }
+      showApprovalRequest(payload);
+    });
+    socket.on('ai_tool_approval_result', (payload: ApprovalResult & { sessionId: string }, ack?: () => void) => {
+      ack?.();
+      if (payload.error) {
+        addSystemNote(`⚠️ ${payload.error}`, true);
+        return;
+      }
+      if (!currentSessionId || payload.sessionId !== currentSessionId) return;
+      setApprovalResult(payload);
     });
   }
 
-  function renderSessionList(items: { id: string; title: string }[]) {
-    els.sessionList.innerHTML = '';
-    items.forEach((it) => {
+  // `scrollTo`: message to reveal once the session's messages arrive
+  function openSession(id: string, scrollTo: string | null = null) {
+    pendingScrollId = scrollTo;
+    pendingBranchSwitched = false;
+    currentSessionId = id;
+    clearUnread(id);
+    updateStopButton();
+    renderSessionList();
+    renderToolBar();
+    els.messages.innerHTML = '';
+    els.queued.innerHTML = '';
+    aiBubbles.clear();
+    aiTexts.clear();
+    pendingRenders.clear();
+    socket.emit('session_open', { sessionId: currentSessionId });
+  }
+
+  // Scroll to the message picked in search; if it is on another branch,
+  // switch to that branch once and try again when it arrives
+  function revealPendingMessage() {
+    if (!pendingScrollId) return;
+    const li = els.messages.querySelector(`[data-id="${CSS.escape(pendingScrollId)}"]`);
+    if (li) {
+      li.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      li.classList.add('flash');
+      setTimeout(() => li.classList.remove('flash'), 2000);
+      pendingScrollId = null;
+    } else if (!pendingBranchSwitched) {
+      pendingBranchSwitched = true;
+      socket.emit('branch_switch', { sessionId: currentSessionId, messageId: pendingScrollId });
+    } else {
+      pendingScrollId = null;
+    }
+  }
+
+  // Snippet text with <mark> around the highlighted ranges
+  function renderSnippet(el: HTMLElement, hit: SearchHit) {
+    let pos = 0;
+    for (const [start, end] of hit.highlights) {
+      el.appendChild(document.createTextNode(hit.snippet.slice(pos, start)));
+      const mark = document.createElement('mark');
+      mark.textContent = hit.snippet.slice(start, end);
+      el.appendChild(mark);
+      pos = end;
+    }
+    el.appendChild(document.createTextNode(hit.snippet.slice(pos)));
+  }
+
+  function renderSearchResults(results: SearchResult[]) {
+    els.searchResults.innerHTML = '';
+    if (results.length === 0) {
+      els.searchResults.innerHTML = `<li class="search-empty">没有找到匹配的内容</li>`;
+      return;
+    }
+    results.forEach((r) => {
       const li = document.createElement('li');
-      li.textContent = it.title || '未命名会话';
-      if (it.id === currentSessionId) li.classList.add('active');
-      li.addEventListener('click', () => {
-        currentSessionId = it.id;
-        renderSessionList(items.map(s => ({ id: s.id, title: s.title })));
-        els.messages.innerHTML = '';
-        aiBubbles.clear();
-        socket.emit('session_open', { sessionId: currentSessionId });
-      });
-      els.sessionList.appendChild(li);
+      li.className = 'search-session';
+      const title = document.createElement('div');
+      title.className = 'search-session-title';
+      const titleHit = r.hits.find((h) => h.kind === 'title');
+      if (titleHit) renderSnippet(title, titleHit);
+      else title.textContent = r.title;
+      title.addEventListener('click', () => openSession(r.sessionId));
+      li.appendChild(title);
+      r.hits
+        .filter((h) => h.kind !== 'title')
+        .forEach((h) => {
+          const row = document.createElement('div');
+          row.className = 'search-hit';
+          row.textContent = h.kind === 'tool' ? '🔧 ' : h.role === 'user' ? '🙋 ' : '🤖 ';
+          renderSnippet(row, h);
+          row.addEventListener('click', () => openSession(r.sessionId, h.messageId));
+          li.appendChild(row);
+        });
+      els.searchResults.appendChild(li);
     });
   }
 
+  let searchTimer: ReturnType<typeof setTimeout> | undefined;
+  function onSearchInput() {
+    clearTimeout(searchTimer);
+    const query = els.searchInput.value.trim();
+    els.searchResults.hidden = !query;
+    els.sessionList.hidden = !!query;
+    if (!query) return;
+    searchTimer = setTimeout(() => {
+      if (socket && socket.connected) socket.emit('search', { query });
+    }, 250);
+  }
+
+  function addSessionAction(li: HTMLLIElement, label: string, title: string, onClick: () => void) {
+    const btn = document.createElement('button');
+    btn.className = 'session-action';
+    btn.textContent = label;
+    btn.title = title;
+    btn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      onClick();
+    });
+    (li.querySelector('.session-actions') as HTMLSpanElement).appendChild(btn);
+  }
+
+  function renderSessionItem(it: SessionItem): HTMLLIElement {
+    const li = document.createElement('li');
+    li.innerHTML = `<div class="session-head"><span class="session-title"></span></div><span class="session-actions"></span>`;
+    (li.querySelector('.session-title') as HTMLSpanElement).textContent =
+      (it.pinned ? '📌 ' : '') + (it.title || '未命名会话');
+    const unreadCount = unread[it.id]?.length ?? 0;
+    if (unreadCount > 0) {
+      const badge = document.createElement('span');
+      badge.className = 'unread-badge';
+      badge.textContent = unreadCount > 99 ? '99+' : String(unreadCount);
+      badge.title = `${unreadCount} 条未读回复`;
+      (li.querySelector('.session-head') as HTMLDivElement).appendChild(badge);
+    }
+    const persona = personaOf(it);
+    if (persona && persona.id !== defaultPersonaId) {
+      const tag = document.createElement('span');
+      tag.className = 'session-persona';
+      tag.textContent = persona.name;
+      li.insertBefore(tag, li.querySelector('.session-actions'));
+    }
+    if (it.id === currentSessionId) li.classList.add('active');
+    li.addEventListener('click', () => openSession(it.id));
+    addSessionAction(li, it.pinned ? '取消置顶' : '置顶', '置顶会话', () => {
+      socket.emit('session_pin', { sessionId: it.id, pinned: !it.pinned });
+    });
+    addSessionAction(li, '重命名', '重命名会话', () => {
+      const title = window.prompt('会话名称', it.title);
+      if (title && title.trim()) socket.emit('session_rename', { sessionId: it.id, title: title.trim() });
+    });
+    addSessionAction(li, it.archived ? '取消归档' : '归档', '归档会话', () => {
+      socket.emit('session_archive', { sessionId: it.id, archived: !it.archived });
+    });
+    addSessionAction(li, '导出', '按所选格式导出会话', () => {
+      exportSessions(it.id);
+    });
+    addSessionAction(li, '删除', '删除会话及其消息', () => {
+      if (window.confirm(`删除会话“${it.title}”及其全部消息？`)) {
+        socket.emit('session_delete', { sessionId: it.id });
+      }
+    });
+    return li;
+  }
+
+  // Pinned first (server order is most recently updated); archived in a fold
+  function renderSessionList() {
+    els.sessionList.innerHTML = '';
+    const active = sessionItems.filter((s) => !s.archived);
+    const archived = sessionItems.filter((s) => s.archived);
+    [...active.filter((s) => s.pinned), ...active.filter((s) => !s.pinned)].forEach((it) => {
+      els.sessionList.appendChild(renderSessionItem(it));
+    });
+    if (archived.length === 0) return;
+    const fold = document.createElement('li');
+    fold.className = 'session-archived';
+    fold.innerHTML = `<details><summary></summary><ul class="session-list"></ul></details>`;
+    (fold.querySelector('summary') as HTMLElement).textContent = `已归档（${archived.length}）`;
+    const list = fold.querySelector('ul') as HTMLUListElement;
+    archived.forEach((it) => list.appendChild(renderSessionItem(it)));
+    if (archived.some((s) => s.id === currentSessionId)) {
+      (fold.querySelector('details') as HTMLDetailsElement).open = true;
+    }
+    els.sessionList.appendChild(fold);
+  }
+
   function sendToAI() {
     if (!socket || socket.disconnected) return;
     const text = els.msgInput.value.trim();
-    if (!text) return;
-    if (!currentSessionId) {
-      // Auto create a new session if none selected
+    if (!text && pendingFiles.length === 0) return;
+    // The bubble is added when the server echoes message_added with its id
+    const payload = {
+      sessionId: currentSessionId,
+      text,
+      parentId: lastNodeId ?? undefined,
+      attachments: pendingFiles.length > 0 ? pendingFiles : undefined,
+    };
+    if (currentSessionId) {
+      socket.emit('ai_send', payload);
+    } else {
+      // Auto create a new session if none selected; send once it exists
       currentSessionId = (window as any).crypto?.randomUUID?.() || ('s-' + Math.random().toString(36).slice(2));
-      socket.emit('session_create', { sessionId: currentSessionId });
+      payload.sessionId = currentSessionId;
+      socket.emit('session_create', { sessionId: currentSessionId, personaId: personaOf()?.id }, () =>
+        socket.emit('ai_send', payload)
+      );
       socket.emit('session_open', { sessionId: currentSessionId });
     }
-    addUserBubble(text);
-    socket.emit('ai_send', { sessionId: currentSessionId, text });
     els.msgInput.value = '';
+    pendingFiles = [];
+    renderPendingFiles();
+  }
+
+  // Some browsers leave the type of .md / .csv files empty
+  const TYPES_BY_EXTENSION: Record<string, string> = {
+    txt: 'text/plain',
+    md: 'text/markdown',
+    csv: 'text/csv',
+    json: 'application/json',
+  };
+
+  async function uploadFiles(files: File[]) {
+    for (const file of files) {
+      const ext = file.name.split('.').pop()?.toLowerCase() ?? '';
+      const res = await apiFetch(`/api/attachments?name=${encodeURIComponent(file.name)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': file.type || TYPES_BY_EXTENSION[ext] || 'application/octet-stream' },
+        body: file,
+      }).catch(() => null);
+      const body = res ? await res.json().catch(() => ({})) : {};
+      if (!res || !res.ok) {
+        addSystemNote(`上传 ${file.name} 失败：${body.error || '网络错误'}`, true);
+        continue;
+      }
+      pendingFiles.push(body as AttachmentInfo);
+      renderPendingFiles();
+    }
+  }
+
+  // Files waiting to go out with the next message, each removable
+  function renderPendingFiles() {
+    els.pendingFiles.innerHTML = '';
+    els.pendingFiles.hidden = pendingFiles.length === 0;
+    pendingFiles.forEach((file) => {
+      const chip = document.createElement('span');
+      chip.className = 'file-chip';
+      chip.textContent = `📎 ${file.name} · ${formatSize(file.size)}`;
+      const remove = document.createElement('button');
+      remove.textContent = '×';
+      remove.title = '移除';
+      remove.addEventListener('click', () => {
+        pendingFiles = pendingFiles.filter((f) => f !== file);
+        renderPendingFiles();
+      });
+      chip.appendChild(remove);
+      els.pendingFiles.appendChild(chip);
+    });
+  }
+
+  function stopAI() {
+    if (!socket || socket.disconnected || !currentSessionId) return;
+    socket.emit('ai_abort', { sessionId: currentSessionId });
   }
 
   els.btnSend.addEventListener('click', sendToAI);
+  els.btnAttach.addEventListener('click', () => els.fileInput.click());
+  els.fileInput.addEventListener('change', () => {
+    const files = Array.from(els.fileInput.files ?? []);
+    els.fileInput.value = '';
+    uploadFiles(files);
+  });
+  els.btnStop.addEventListener('click', stopAI);
   els.msgInput.addEventListener('keydown', (e) => {
     if (e.key === 'Enter') {
       e.preventDefault();
@@ -197,14 +1358,36 @@
     }
   });
 
-  // Auto connect
-  connect(userId);
+  els.loginForm.addEventListener('submit', (e) => {
+    e.preventDefault();
+    const username = els.loginUser.value.trim();
+    const password = els.loginPass.value;
+    if (!username || !password) return;
+    login(username, password).catch(() => showLogin('登录失败'));
+  });
+  els.btnLogout.addEventListener('click', logout);
+  els.searchInput.addEventListener('input', onSearchInput);
+  els.btnExportAll.addEventListener('click', () => exportSessions());
+  els.btnImport.addEventListener('click', () => els.importFile.click());
+  els.importFile.addEventListener('change', () => {
+    const file = els.importFile.files?.[0];
+    els.importFile.value = '';
+    if (file) importSessions(file);
+  });
+
+  // Auto connect with a saved token, otherwise ask to log in
+  const savedToken = localStorage.getItem(TOKEN_KEY);
+  if (savedToken) connect(savedToken);
+  else showLogin();
 
   // New session button
   els.btnNewSession.addEventListener('click', () => {
     const sid = (window as any).crypto?.randomUUID?.() || ('s-' + Math.random().toString(36).slice(2));
+    // The new session starts with the persona in use now
+    const personaId = personaOf(sessionItems.find((s) => s.id === currentSessionId))?.id;
     currentSessionId = sid;
-    socket.emit('session_create', { sessionId: sid });
+    updateStopButton();
+    socket.emit('session_create', { sessionId: sid, personaId });
     socket.emit('session_open', { sessionId: sid });
   });
 })();
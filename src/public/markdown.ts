@@ -0,0 +1,528 @@
+// ---------- Markdown for AI replies ----------
+// A small renderer for the subset models actually write: fenced code,
+// headings, lists, quotes, tables, rules and the usual inline marks. It only
+// builds DOM nodes and sets textContent, so model output can never become
+// HTML or script; links are limited to http(s)/mailto. Streaming-friendly:
+// an unterminated fence renders as an open code block, unmatched inline marks
+// stay literal, and re-rendering replaces only the blocks whose source changed
+// (usually just the last one). Exposed as window.chatMarkdown for ai-client.
+(() => {
+  type Align = 'left' | 'center' | 'right' | '';
+  type Block =
+    | { kind: 'code'; lang: string; code: string }
+    | { kind: 'heading'; level: number; text: string }
+    | { kind: 'hr' }
+    | { kind: 'quote'; body: string }
+    | { kind: 'list'; ordered: boolean; start: number; items: string[] }
+    | { kind: 'table'; header: string[]; align: Align[]; rows: string[][] }
+    | { kind: 'paragraph'; text: string };
+  type Parsed = { src: string; block: Block };
+  type Rendered = { src: string; node: HTMLElement };
+
+  const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)/;
+  const HEADING = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+  const RULE = /^ {0,3}([-*_])( *\1){2,} *$/;
+  const QUOTE = /^ {0,3}> ?/;
+  const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])[ \t]+(.*)$/;
+  const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+  const indentOf = (line: string) => /^ */.exec(line)![0].length;
+
+  function isTableStart(lines: string[], i: number): boolean {
+    return lines[i].includes('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1]) && lines[i + 1].includes('-');
+  }
+
+  // Lines that end a paragraph without a blank line in between
+  function startsBlock(lines: string[], i: number): boolean {
+    const line = lines[i];
+    return (
+      FENCE.test(line) ||
+      HEADING.test(line) ||
+      RULE.test(line) ||
+      QUOTE.test(line) ||
+      /^ {0,3}([-*+]|1[.)])[ \t]+\S/.test(line) ||
+      isTableStart(lines, i)
+    );
+  }
+
+  function splitRow(line: string): string[] {
+    let row = line.trim();
+    if (row.startsWith('|')) row = row.slice(1);
+    if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+    return row.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, '|'));
+  }
+
+  function parseBlocks(text: string): Parsed[] {
+    const lines = text.replace(/\r\n?/g, '\n').split('\n');
+    const out: Parsed[] = [];
+    let i = 0;
+    while (i < lines.length) {
+      const line = lines[i];
+      if (!line.trim()) {
+        i++;
+        continue;
+      }
+      const start = i;
+      let block: Block;
+      const fence = FENCE.exec(line);
+      const heading = HEADING.exec(line);
+      const item = LIST_ITEM.exec(line);
+      if (fence) {
+        const marker = fence[1];
+        const close = new RegExp(`^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}\\s*$`);
+        const code: string[] = [];
+        i++;
+        while (i < lines.length && !close.test(lines[i])) code.push(lines[i++]);
+        i++; // the closing fence; past the end while it is still streaming
+        block = { kind: 'code', lang: fence[2].toLowerCase(), code: code.join('\n') };
+      } else if (heading) {
+        i++;
+        block = { kind: 'heading', level: heading[1].length, text: heading[2] };
+      } else if (RULE.test(line)) {
+        i++;
+        block = { kind: 'hr' };
+      } else if (QUOTE.test(line)) {
+        const body: string[] = [];
+        // Lazy continuation: unmarked lines still belong to the quote
+        while (i < lines.length && lines[i].trim() && (QUOTE.test(lines[i]) || !startsBlock(lines, i))) {
+          body.push(lines[i++].replace(QUOTE, ''));
+        }
+        block = { kind: 'quote', body: body.join('\n') };
+      } else if (item) {
+        const indent = item[1].length;
+        const ordered = /\d/.test(item[2]);
+        const items: string[][] = [];
+        while (i < lines.length) {
+          const l = lines[i];
+          const m = LIST_ITEM.exec(l);
+          if (m && m[1].length === indent && /\d/.test(m[2]) === ordered) {
+            items.push([m[3]]);
+            i++;
+          } else if (!l.trim()) {
+            // A blank line continues the list only if more of it follows
+            const next = lines[i + 1];
+            const nextItem = next === undefined ? null : LIST_ITEM.exec(next);
+            if (next === undefined || !(indentOf(next) > indent || (nextItem && nextItem[1].length === indent))) break;
+            items[items.length - 1].push('');
+            i++;
+          } else if (indentOf(l) > indent) {
+            // Nested blocks: drop the item's indentation
+            items[items.length - 1].push(l.slice(Math.min(indentOf(l), indent + 4)));
+            i++;
+          } else if (!startsBlock(lines, i) && !m) {
+            items[items.length - 1].push(l.trim());
+            i++;
+          } else {
+            break;
+          }
+        }
+        block = { kind: 'list', ordered, start: ordered ? parseInt(item[2], 10) : 1, items: items.map((it) => it.join('\n')) };
+      } else if (isTableStart(lines, i)) {
+        const header = splitRow(line);
+        const align = splitRow(lines[i + 1]).map((cell): Align => {
+          const left = cell.startsWith(':');
+          const right = cell.endsWith(':');
+          return left && right ? 'center' : right ? 'right' : left ? 'left' : '';
+        });
+        const rows: string[][] = [];
+        i += 2;
+        while (i < lines.length && lines[i].trim() && lines[i].includes('|')) rows.push(splitRow(lines[i++]));
+        block = { kind: 'table', header, align, rows };
+      } else {
+        const body: string[] = [line];
+        i++;
+        while (i < lines.length && lines[i].trim() && !startsBlock(lines, i)) body.push(lines[i++]);
+        block = { kind: 'paragraph', text: body.map((l) => l.trim()).join('\n') };
+      }
+      out.push({ src: lines.slice(start, i).join('\n'), block });
+    }
+    return out;
+  }
+
+  // ---------- Inline ----------
+  const ESCAPABLE = /[\\`*_{}\[\]()#+\-.!|~<>]/;
+  const EMPHASIS: { marker: string; tag: string }[] = [
+    { marker: '**', tag: 'strong' },
+    { marker: '__', tag: 'strong' },
+    { marker: '~~', tag: 'del' },
+    { marker: '*', tag: 'em' },
+    { marker: '_', tag: 'em' },
+  ];
+  const AUTOLINK = /^(https?:\/\/|mailto:)[^\s<>"']+/i;
+
+  function safeUrl(url: string): string | null {
+    const trimmed = url.trim().replace(/^<|>$/g, '');
+    return /^(https?:\/\/|mailto:)/i.test(trimmed) ? trimmed : null;
+  }
+
+  function link(href: string, label: (a: HTMLAnchorElement) => void): HTMLAnchorElement {
+    const a = document.createElement('a');
+    a.href = href;
+    a.target = '_blank';
+    a.rel = 'noopener noreferrer nofollow';
+    label(a);
+    return a;
+  }
+
+  // `[text](url)` / `![alt](url)` starting at i, if complete
+  function matchLink(text: string, i: number): { image: boolean; label: string; url: string; end: number } | null {
+    const image = text[i] === '!';
+    const open = image ? i + 1 : i;
+    if (text[open] !== '[') return null;
+    let depth = 0;
+    let close = -1;
+    for (let j = open; j < text.length; j++) {
+      if (text[j] === '\\') j++;
+      else if (text[j] === '[') depth++;
+      else if (text[j] === ']' && --depth === 0) {
+        close = j;
+        break;
+      }
+    }
+    if (close < 0 || text[close + 1] !== '(') return null;
+    let end = -1;
+    for (let j = close + 1, parens = 0; j < text.length && end < 0; j++) {
+      if (text[j] === '(') parens++;
+      else if (text[j] === ')' && --parens === 0) end = j;
+    }
+    if (end < 0) return null;
+    const url = text.slice(close + 2, end).trim().split(/\s+/)[0] ?? '';
+    return { image, label: text.slice(open + 1, close), url, end: end + 1 };
+  }
+
+  // An emphasis run starting at i, if its closing marker is present
+  function matchEmphasis(text: string, i: number): { tag: string; inner: string; end: number } | null {
+    for (const { marker, tag } of EMPHASIS) {
+      if (!text.startsWith(marker, i)) continue;
+      const after = text[i + marker.length];
+      if (!after || /\s/.test(after) || (marker.length === 1 && after === marker)) continue;
+      // snake_case and 2*3*4 are not emphasis
+      if (marker[0] === '_' && i > 0 && /[\p{L}\p{N}]/u.test(text[i - 1])) continue;
+      for (let j = text.indexOf(marker, i + marker.length + 1); j >= 0; j = text.indexOf(marker, j + 1)) {
+        if (/\s/.test(text[j - 1])) continue;
+        if (marker.length === 1 && (text[j + 1] === marker || text[j - 1] === marker)) continue;
+        if (marker[0] === '_' && /[\p{L}\p{N}]/u.test(text[j + 1] ?? '')) continue;
+        return { tag, inner: text.slice(i + marker.length, j), end: j + marker.length };
+      }
+    }
+    return null;
+  }
+
+  function renderInline(text: string, parent: Node): void {
+    let buf = '';
+    const flush = () => {
+      if (buf) parent.appendChild(document.createTextNode(buf));
+      buf = '';
+    };
+    let i = 0;
+    while (i < text.length) {
+      const ch = text[i];
+      if (ch === '\\' && ESCAPABLE.test(text[i + 1] ?? '')) {
+        buf += text[i + 1];
+        i += 2;
+        continue;
+      }
+      if (ch === '\n') {
+        flush();
+        parent.appendChild(document.createElement('br'));
+        i++;
+        continue;
+      }
+      if (ch === '`') {
+        const run = /^`+/.exec(text.slice(i))![0];
+        let close = text.indexOf(run, i + run.length);
+        while (close >= 0 && text[close + run.length] === '`') close = text.indexOf(run, close + run.length + 1);
+        if (close < 0) {
+          buf += run; // unmatched: literal (possibly still streaming)
+          i += run.length;
+          continue;
+        }
+        flush();
+        const code = document.createElement('code');
+        const inner = text.slice(i + run.length, close);
+        code.textContent = /^ .*[^ ] $/.test(inner) ? inner.slice(1, -1) : inner;
+        parent.appendChild(code);
+        i = close + run.length;
+        continue;
+      }
+      if (ch === '[' || (ch === '!' && text[i + 1] === '[')) {
+        const m = matchLink(text, i);
+        if (m) {
+          const href = safeUrl(m.url);
+          flush();
+          if (!href) {
+            renderInline(m.label, parent); // unsafe scheme: keep the label only
+          } else if (m.image) {
+            // Never load remote images from model output; link to them instead
+            parent.appendChild(link(href, (a) => (a.textContent = `🖼 ${m.label || href}`)));
+          } else {
+            parent.appendChild(link(href, (a) => renderInline(m.label, a)));
+          }
+          i = m.end;
+          continue;
+        }
+      }
+      if (ch === '*' || ch === '_' || ch === '~') {
+        const m = matchEmphasis(text, i);
+        if (m) {
+          flush();
+          const el = document.createElement(m.tag);
+          renderInline(m.inner, el);
+          parent.appendChild(el);
+          i = m.end;
+          continue;
+        }
+      }
+      if ((ch === 'h' || ch === 'm') && (i === 0 || !/[\p{L}\p{N}]/u.test(text[i - 1]))) {
+        const m = AUTOLINK.exec(text.slice(i));
+        if (m) {
+          const url = m[0].replace(/[.,;:!?)）。，]+$/, '');
+          flush();
+          parent.appendChild(link(url, (a) => (a.textContent = url)));
+          i += url.length;
+          continue;
+        }
+      }
+      buf += ch;
+      i++;
+    }
+    flush();
+  }
+
+  // ---------- Code highlighting ----------
+  type Grammar = { keywords: string[]; comment: RegExp[]; string: RegExp[] };
+  const C_COMMENT = [/\/\/[^\n]*/, /\/\*[\s\S]*?(?:\*\/|$)/];
+  const HASH_COMMENT = [/#[^\n]*/];
+  const QUOTED = [/"(?:[^"\\\n]|\\.)*"?/, /'(?:[^'\\\n]|\\.)*'?/];
+  const JS_KEYWORDS =
+    'async await break case catch class const continue default delete do else export extends false finally for from function if import in instanceof let new null of return static super switch this throw true try typeof undefined var void while yield';
+  const GRAMMARS: Record<string, Grammar> = {
+    js: { keywords: JS_KEYWORDS.split(' '), comment: C_COMMENT, string: [...QUOTED, /`(?:[^`\\]|\\.)*`?/] },
+    ts: {
+      keywords: `${JS_KEYWORDS} abstract any as boolean declare enum implements interface keyof never number private protected public readonly string type unknown`.split(' '),
+      comment: C_COMMENT,
+      string: [...QUOTED, /`(?:[^`\\]|\\.)*`?/],
+    },
+    python: {
+      keywords:
+        'and as assert async await break class continue def del elif else except False finally for from global if import in is lambda None nonlocal not or pass raise return self True try while with yield'.split(' '),
+      comment: HASH_COMMENT,
+      string: [/"""[\s\S]*?(?:"""|$)/, /'''[\s\S]*?(?:'''|$)/, ...QUOTED],
+    },
+    bash: {
+      keywords: 'case do done echo elif else esac exit export fi for function if in local return then until while'.split(' '),
+      comment: HASH_COMMENT,
+      string: QUOTED,
+    },
+    json: { keywords: ['true', 'false', 'null'], comment: [], string: [QUOTED[0]] },
+    sql: {
+      keywords:
+        'select from where and or not insert into values update set delete create table index drop alter join left right inner outer on group by order having limit offset as distinct null is in like primary key references default union all'.split(' '),
+      comment: [/--[^\n]*/, C_COMMENT[1]],
+      string: [QUOTED[1]],
+    },
+    go: {
+      keywords:
+        'break case chan const continue default defer else fallthrough for func go goto if import interface map nil package range return select struct switch type var true false'.split(' '),
+      comment: C_COMMENT,
+      string: [...QUOTED, /`[^`]*`?/],
+    },
+    java: {
+      keywords:
+        'abstract boolean break byte case catch char class const continue default do double else enum extends final finally float for if implements import instanceof int interface long new null package private protected public return short static super switch this throw throws true false try void while'.split(' '),
+      comment: C_COMMENT,
+      string: QUOTED,
+    },
+    c: {
+      keywords:
+        'auto bool break case char class const continue default delete do double else enum extern false float for if include int long namespace new nullptr private public return short signed sizeof static struct switch template this true typedef union unsigned using void while'.split(' '),
+      comment: C_COMMENT,
+      string: QUOTED,
+    },
+    rust: {
+      keywords:
+        'as break const continue crate else enum false fn for if impl in let loop match mod move mut pub ref return self Self static struct trait true type unsafe use where while'.split(' '),
+      comment: C_COMMENT,
+      string: [QUOTED[0]],
+    },
+  };
+  const LANG_ALIASES: Record<string, string> = {
+    javascript: 'js', jsx: 'js', mjs: 'js', cjs: 'js', node: 'js',
+    typescript: 'ts', tsx: 'ts',
+    py: 'python', python3: 'python',
+    sh: 'bash', shell: 'bash', zsh: 'bash', console: 'bash',
+    golang: 'go',
+    kotlin: 'java', cs: 'java', csharp: 'java',
+    cpp: 'c', 'c++': 'c', h: 'c', hpp: 'c',
+    rs: 'rust',
+    postgres: 'sql', mysql: 'sql', sqlite: 'sql',
+  };
+  const tokenizers = new Map<string, RegExp>();
+
+  function tokenizer(lang: string): RegExp | null {
+    const name = LANG_ALIASES[lang] ?? lang;
+    const grammar = GRAMMARS[name];
+    if (!grammar) return null;
+    let re = tokenizers.get(name);
+    if (!re) {
+      const alt = (list: RegExp[]) => list.map((r) => r.source).join('|') || '(?!)';
+      re = new RegExp(
+        `(${alt(grammar.comment)})|(${alt(grammar.string)})|\\b(${grammar.keywords.join('|')})\\b|\\b(0x[\\da-f]+|\\d[\\d_]*(?:\\.\\d+)?(?:e[+-]?\\d+)?)\\b`,
+        name === 'sql' ? 'gi' : 'g'
+      );
+      tokenizers.set(name, re);
+    }
+    return re;
+  }
+
+  function highlight(code: string, lang: string, target: HTMLElement): void {
+    const re = tokenizer(lang);
+    if (!re) {
+      target.textContent = code;
+      return;
+    }
+    const kinds = ['comment', 'string', 'keyword', 'number'];
+    let last = 0;
+    re.lastIndex = 0;
+    for (let m = re.exec(code); m; m = re.exec(code)) {
+      if (!m[0]) {
+        re.lastIndex++;
+        continue;
+      }
+      if (m.index > last) target.appendChild(document.createTextNode(code.slice(last, m.index)));
+      const span = document.createElement('span');
+      span.className = `tok-${kinds[m.slice(1).findIndex((g) => g !== undefined)]}`;
+      span.textContent = m[0];
+      target.appendChild(span);
+      last = m.index + m[0].length;
+    }
+    if (last < code.length) target.appendChild(document.createTextNode(code.slice(last)));
+  }
+
+  function copyText(text: string): Promise<void> {
+    if (navigator.clipboard) return navigator.clipboard.writeText(text);
+    // Non-secure origins have no clipboard API
+    const area = document.createElement('textarea');
+    area.value = text;
+    document.body.appendChild(area);
+    area.select();
+    const ok = document.execCommand('copy');
+    area.remove();
+    return ok ? Promise.resolve() : Promise.reject(new Error('copy failed'));
+  }
+
+  function renderCode(code: string, lang: string): HTMLElement {
+    const wrap = document.createElement('div');
+    wrap.className = 'md-code';
+    const bar = document.createElement('div');
+    bar.className = 'md-code-bar';
+    const label = document.createElement('span');
+    label.textContent = lang || 'text';
+    const copy = document.createElement('button');
+    copy.type = 'button';
+    copy.textContent = '复制';
+    copy.addEventListener('click', () => {
+      copyText(code).then(
+        () => (copy.textContent = '已复制'),
+        () => (copy.textContent = '复制失败')
+      );
+      setTimeout(() => (copy.textContent = '复制'), 1500);
+    });
+    bar.append(label, copy);
+    const pre = document.createElement('pre');
+    const el = document.createElement('code');
+    highlight(code, lang, el);
+    pre.appendChild(el);
+    wrap.append(bar, pre);
+    return wrap;
+  }
+
+  // ---------- Blocks ----------
+  function renderBlock(block: Block): HTMLElement {
+    switch (block.kind) {
+      case 'code':
+        return renderCode(block.code, block.lang);
+      case 'heading': {
+        const h = document.createElement(`h${block.level}`);
+        renderInline(block.text, h);
+        return h;
+      }
+      case 'hr':
+        return document.createElement('hr');
+      case 'quote': {
+        const q = document.createElement('blockquote');
+        for (const b of parseBlocks(block.body)) q.appendChild(renderBlock(b.block));
+        return q;
+      }
+      case 'list': {
+        const list = document.createElement(block.ordered ? 'ol' : 'ul');
+        if (block.ordered && block.start !== 1) (list as HTMLOListElement).start = block.start;
+        for (const item of block.items) {
+          const li = document.createElement('li');
+          const [first, ...rest] = parseBlocks(item);
+          // Tight items keep their first paragraph inline
+          if (first?.block.kind === 'paragraph') renderInline(first.block.text, li);
+          else if (first) li.appendChild(renderBlock(first.block));
+          for (const b of rest) li.appendChild(renderBlock(b.block));
+          list.appendChild(li);
+        }
+        return list;
+      }
+      case 'table': {
+        const wrap = document.createElement('div');
+        wrap.className = 'md-table';
+        const table = document.createElement('table');
+        const row = (cells: string[], tag: 'th' | 'td') => {
+          const tr = document.createElement('tr');
+          block.header.forEach((_, i) => {
+            const cell = document.createElement(tag);
+            if (block.align[i]) cell.style.textAlign = block.align[i];
+            renderInline(cells[i] ?? '', cell);
+            tr.appendChild(cell);
+          });
+          return tr;
+        };
+        const thead = document.createElement('thead');
+        thead.appendChild(row(block.header, 'th'));
+        const tbody = document.createElement('tbody');
+        for (const r of block.rows) tbody.appendChild(row(r, 'td'));
+        table.append(thead, tbody);
+        wrap.appendChild(table);
+        return wrap;
+      }
+      case 'paragraph': {
+        const p = document.createElement('p');
+        renderInline(block.text, p);
+        return p;
+      }
+    }
+  }
+
+  const rendered = new WeakMap<HTMLElement, Rendered[]>();
+
+  /** Render `text` into `target`, reusing the nodes of unchanged blocks. */
+  function render(target: HTMLElement, text: string): void {
+    const blocks = parseBlocks(text);
+    const prev = rendered.get(target) ?? [];
+    let keep = 0;
+    while (
+      keep < prev.length &&
+      keep < blocks.length &&
+      prev[keep].src === blocks[keep].src &&
+      prev[keep].node.parentNode === target
+    ) {
+      keep++;
+    }
+    if (keep === 0) target.textContent = '';
+    for (const r of prev.slice(keep)) r.node.remove();
+    const next = prev.slice(0, keep);
+    for (const b of blocks.slice(keep)) {
+      const node = renderBlock(b.block);
+      target.appendChild(node);
+      next.push({ src: b.src, node });
+    }
+    rendered.set(target, next);
+  }
+
+  (window as any).chatMarkdown = { render };
+})();
@@ -0,0 +1,266 @@
+import { Message, SearchHit, SearchResult, SessionItem } from "./types";
+
+// ---------- Full-text search ----------
+// Shared by the store backends: what gets indexed, how text is split into
+// terms, and how ranked documents become per-session results. Chinese has no
+// word boundaries, so CJK runs are indexed as single characters and
+// overlapping bigrams; other scripts as lowercase words.
+
+// One searchable unit: a message's text, a tool call's name or a title
+export interface SearchDoc {
+  id: string; // message id, or session:<id> for titles
+  userId: string;
+  sessionId: string;
+  messageId: string | null; // message to scroll to
+  kind: SearchHit["kind"];
+  role?: Message["role"];
+  text: string;
+  timestamp: number;
+}
+
+export interface RankedDoc {
+  doc: SearchDoc;
+  score: number; // higher is better
+}
+
+// Documents fetched from an index before grouping by session
+export const SEARCH_CANDIDATES = 200;
+const HITS_PER_SESSION = 5;
+const SNIPPET_RADIUS = 40;
+
+const CJK = /[\u3040-\u30ff\u3400-\u9fff\uf900-\ufaff\uac00-\ud7af]/;
+
+// Runs of letters/digits, split where CJK and other scripts meet
+function segments(text: string): string[] {
+  const result: string[] = [];
+  for (const run of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    let current = "";
+    let currentCjk = false;
+    for (const ch of run) {
+      const cjk = CJK.test(ch);
+      if (current && cjk !== currentCjk) {
+        result.push(current);
+        current = "";
+      }
+      current += ch;
+      currentCjk = cjk;
+    }
+    if (current) result.push(current);
+  }
+  return result;
+}
+
+function bigrams(chars: string[]): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < chars.length - 1; i++) {
+    result.push(chars[i] + chars[i + 1]);
+  }
+  return result;
+}
+
+/** Terms stored for a document (CJK: characters and bigrams). */
+export function indexTerms(text: string): string[] {
+  const terms: string[] = [];
+  for (const seg of segments(text)) {
+    if (!CJK.test(seg)) {
+      terms.push(seg);
+      continue;
+    }
+    const chars = [...seg];
+    terms.push(...chars, ...bigrams(chars));
+  }
+  return terms;
+}
+
+/** Terms a query must all match (CJK: bigrams, or the lone character). */
+export function queryTerms(query: string): string[] {
+  const terms = new Set<string>();
+  for (const seg of segments(query)) {
+    const chars = [...seg];
+    if (!CJK.test(seg) || chars.length === 1) terms.add(seg);
+    else bigrams(chars).forEach((t) => terms.add(t));
+  }
+  return [...terms];
+}
+
+/** What a stored message contributes to the index, if anything. */
+export function messageDoc(m: Message): SearchDoc | null {
+  const base = {
+    id: m.id,
+    userId: m.to,
+    sessionId: m.sessionId,
+    role: m.role,
+    timestamp: m.timestamp,
+  };
+  if (m.message.type === "text") {
+    if (!m.message.content) return null;
+    return { ...base, messageId: m.id, kind: "text", text: m.message.content };
+  }
+  if (m.message.type === "tool_use") {
+    // Point at the reply that used the tool; that is what the client shows
+    const messageId = m.replyId ?? m.parentId ?? m.id;
+    return { ...base, messageId, kind: "tool", text: m.message.content };
+  }
+  return null; // results repeat the tool name
+}
+
+export function sessionDocId(sessionId: string): string {
+  return `session:${sessionId}`;
+}
+
+export function sessionDoc(s: SessionItem): SearchDoc {
+  return {
+    id: sessionDocId(s.id),
+    userId: s.userId,
+    sessionId: s.id,
+    messageId: null,
+    kind: "title",
+    text: s.title,
+    timestamp: s.updatedAt,
+  };
+}
+
+/** A window of `text` around the first match, with match offsets. */
+export function makeSnippet(
+  text: string,
+  terms: string[]
+): Pick<SearchHit, "snippet" | "highlights"> {
+  const lower = text.toLowerCase();
+  const ranges: Array<[number, number]> = [];
+  for (const term of terms) {
+    for (let i = lower.indexOf(term); i >= 0; i = lower.indexOf(term, i + 1)) {
+      ranges.push([i, i + term.length]);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const r of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && r[0] <= last[1]) last[1] = Math.max(last[1], r[1]);
+    else merged.push([r[0], r[1]]);
+  }
+
+  const first = merged[0] ?? [0, 0];
+  const start = Math.max(0, first[0] - SNIPPET_RADIUS);
+  const end = Math.min(text.length, first[1] + SNIPPET_RADIUS * 2);
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+  const snippet = prefix + text.slice(start, end) + suffix;
+  const shift = prefix.length - start;
+  return {
+    snippet,
+    highlights: merged
+      .filter(([a, b]) => a >= start && b <= end)
+      .map(([a, b]) => [a + shift, b + shift]),
+  };
+}
+
+/**
+ * Group ranked documents by session (best session first, up to `limit`).
+ * `titleOf` returns undefined for sessions that no longer exist.
+ */
+export function groupResults(
+  ranked: RankedDoc[],
+  terms: string[],
+  titleOf: (sessionId: string) => string | undefined,
+  limit: number
+): SearchResult[] {
+  const bySession = new Map<string, SearchResult>();
+  for (const { doc, score } of ranked) {
+    const title = titleOf(doc.sessionId);
+    if (title === undefined) continue;
+    let result = bySession.get(doc.sessionId);
+    if (!result) {
+      if (bySession.size >= limit) continue;
+      result = { sessionId: doc.sessionId, title, score, hits: [] };
+      bySession.set(doc.sessionId, result);
+    }
+    if (result.hits.length >= HITS_PER_SESSION) continue;
+    result.hits.push({
+      messageId: doc.messageId,
+      kind: doc.kind,
+      role: doc.role,
+      timestamp: doc.timestamp,
+      ...makeSnippet(doc.text, terms),
+    });
+  }
+  return [...bySession.values()].sort((a, b) => b.score - a.score);
+}
+
+// ---------- In-memory inverted index (BM25) ----------
+const K1 = 1.2;
+const B = 0.75;
+
+interface IndexedDoc {
+  doc: SearchDoc;
+  tf: Map<string, number>;
+  length: number;
+}
+
+export function createMemoryIndex() {
+  const docs = new Map<string, IndexedDoc>();
+  const postings = new Map<string, Set<string>>(); // term -> doc ids
+  const bySession = new Map<string, Set<string>>(); // session id -> doc ids
+  let totalLength = 0;
+
+  function remove(id: string): void {
+    const entry = docs.get(id);
+    if (!entry) return;
+    for (const term of entry.tf.keys()) {
+      const ids = postings.get(term);
+      ids?.delete(id);
+      if (ids && ids.size === 0) postings.delete(term);
+    }
+    bySession.get(entry.doc.sessionId)?.delete(id);
+    totalLength -= entry.length;
+    docs.delete(id);
+  }
+
+  function put(doc: SearchDoc): void {
+    remove(doc.id);
+    const terms = indexTerms(doc.text);
+    const tf = new Map<string, number>();
+    for (const t of terms) tf.set(t, (tf.get(t) ?? 0) + 1);
+    docs.set(doc.id, { doc, tf, length: terms.length });
+    totalLength += terms.length;
+    for (const term of tf.keys()) {
+      if (!postings.has(term)) postings.set(term, new Set());
+      postings.get(term)!.add(doc.id);
+    }
+    if (!bySession.has(doc.sessionId)) bySession.set(doc.sessionId, new Set());
+    bySession.get(doc.sessionId)!.add(doc.id);
+  }
+
+  function removeSession(sessionId: string): void {
+    for (const id of [...(bySession.get(sessionId) ?? [])]) remove(id);
+    bySession.delete(sessionId);
+  }
+
+  // Documents of `userId` containing every term, best first
+  function search(userId: string, terms: string[], limit: number): RankedDoc[] {
+    const lists = terms.map((t) => postings.get(t));
+    if (terms.length === 0 || lists.some((l) => !l)) return [];
+    // Smallest posting list first; a copy, as lists[i] must stay terms[i]
+    const sets = [...(lists as Set<string>[])].sort((a, b) => a.size - b.size);
+    const avgLength = totalLength / Math.max(docs.size, 1);
+    const ranked: RankedDoc[] = [];
+    for (const id of sets[0]) {
+      if (!sets.every((s) => s.has(id))) continue;
+      const entry = docs.get(id)!;
+      if (entry.doc.userId !== userId) continue;
+      let score = 0;
+      terms.forEach((term, i) => {
+        const df = lists[i]!.size;
+        const idf = Math.log(1 + (docs.size - df + 0.5) / (df + 0.5));
+        const tf = entry.tf.get(term) ?? 0;
+        score +=
+          (idf * tf * (K1 + 1)) /
+          (tf + K1 * (1 - B + (B * entry.length) / avgLength));
+      });
+      ranked.push({ doc: entry.doc, score });
+    }
+    return ranked.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  return { put, remove, removeSession, search };
+}
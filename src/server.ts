@@ -3,11 +3,8 @@ import express, { Request, Response } from "express";
 import http from "http";
 import { Server } from "socket.io";
 import path from "path";
-import fs from "fs";
 import crypto from "crypto";
-import { Agent, createTool } from "@voltagent/core";
-import { openai } from "@ai-sdk/openai";
-import { z } from "zod";
+import { Agent } from "@voltagent/core";
 import {
   ClientToServerEvents,
   ServerToClientEvents,
@@ -16,347 +13,1776 @@ import {
   Message,
   MessageBody,
   SessionItem,
+  MessageStatus,
+  ActiveStream,
+  ToolUseBody,
+  ToolResultBody,
+  StreamSink,
+  QueuedSend,
+  RelayOutcome,
+  LimitHit,
+  SendOutcome,
+  ToolApprovalBody,
+  AttachmentInfo,
+  ErrorBody,
+  SourceRef,
 } from "./types";
+import { buildConversation } from "./history";
+import {
+  AI_RETRY_MAX,
+  AIFailure,
+  classifyAIError,
+  retryDelayMs,
+} from "./errors";
+import { getBranch, getParentId, resolveLeaf } from "./branches";
+import { createStores } from "./store";
+import { createAuthRouter, requireAuth, socketAuth } from "./auth";
+import { createApiRouter } from "./api";
+import { importSessions, SessionExport } from "./transfer";
+import { createUsageLimiter } from "./limits";
+import { createMetrics } from "./metrics";
+import { replyUsage } from "./usage";
+import { loadToolRegistry, sleep } from "./tools";
+import { AI_MODEL, AI_TITLE_MODEL, createModel } from "./model";
+import { DEFAULT_PERSONA, loadPersonaRegistry } from "./personas";
+import {
+  attachedFiles,
+  attachmentBody,
+  attachmentIds,
+  createAttachmentStore,
+} from "./attachments";
+import {
+  ApprovalAnswer,
+  ApprovalDecision,
+  ApprovalRequest,
+  createApprovalGate,
+  pendingApprovals,
+  withApproval,
+} from "./approvals";
+import { createClusterTransport, createTransportAdapter } from "./cluster";
 
-// ---------- Simple file-based message store ----------
-const DATA_DIR = path.resolve(process.cwd(), "data");
-const MSG_FILE = path.join(DATA_DIR, "messages.json");
-const SESS_FILE = path.join(DATA_DIR, "sessions.json");
+// ---------- Message & session store ----------
+const {
+  messages: messageStore,
+  sessions: sessionStore,
+  users: userStore,
+  search: searchStore,
+  locks: lockStore,
+} = createStores();
+// Uploaded files (data/attachments), referenced by message records
+const attachmentStore = createAttachmentStore();
 
-function ensureStore(): void {
-  if (!fs.existsSync(DATA_DIR)) {
-    fs.mkdirSync(DATA_DIR, { recursive: true });
-  }
-  if (!fs.existsSync(MSG_FILE)) {
-    fs.writeFileSync(MSG_FILE, JSON.stringify({ messages: [] }, null, 2));
-  }
-  if (!fs.existsSync(SESS_FILE)) {
-    fs.writeFileSync(SESS_FILE, JSON.stringify({ sessions: [] }, null, 2));
+// ---------- Server & Socket setup ----------
+const app = express();
+const server = http.createServer(app);
+// Several instances share rooms through the cluster transport (if configured)
+const clusterTransport = createClusterTransport();
+const io = new Server<
+  ClientToServerEvents,
+  ServerToClientEvents,
+  InterServerEvents,
+  SocketData
+>(
+  server,
+  clusterTransport ? { adapter: createTransportAdapter(clusterTransport) } : {}
+);
+if (clusterTransport && (process.env.STORE_BACKEND || "json") === "json") {
+  // eslint-disable-next-line no-console
+  console.warn(
+    "Clustered with the JSON store: instances will overwrite each other. Use STORE_BACKEND=libsql."
+  );
+}
+
+// Serve static client from dist/public after build
+app.use(express.static(path.join(__dirname, "public")));
+app.get("/health", (_req: Request, res: Response) => res.send("ok"));
+
+// Prometheus scrape target; with METRICS_TOKEN set it must come as a bearer token
+const metrics = createMetrics({
+  activeStreams: () => activeStreams.size,
+  connectedSockets: () => io.engine.clientsCount,
+});
+const METRICS_TOKEN = process.env.METRICS_TOKEN;
+app.get("/metrics", (req: Request, res: Response) => {
+  if (METRICS_TOKEN && req.headers.authorization !== `Bearer ${METRICS_TOKEN}`) {
+    res.status(401).send("unauthorized");
+    return;
   }
+  res.type("text/plain; version=0.0.4").send(metrics.render());
+});
+app.use("/auth", createAuthRouter(userStore));
+
+// Reject sockets without a valid token; sets socket.data.userId
+io.use(socketAuth);
+
+// Rooms: every socket of a user joins user:<id> (all tabs/devices get stream,
+// tool and session-list events); the session a tab has open is
+// session:<userId>:<sessionId>, so only its owner's sockets can be in it.
+function userRoom(userId: string): string {
+  return `user:${userId}`;
 }
 
-function readStore(): { messages: Message[] } {
-  ensureStore();
-  const raw = fs.readFileSync(MSG_FILE, "utf8");
-  return JSON.parse(raw) as { messages: Message[] };
+function sessionRoom(userId: string, sessionId: string): string {
+  return `session:${userId}:${sessionId}`;
 }
 
-function writeStore(data: { messages: Message[] }): void {
-  fs.writeFileSync(MSG_FILE, JSON.stringify(data, null, 2));
+// Cluster-wide: counts sockets of the user on every instance
+async function isUserOnline(userId: string): Promise<boolean> {
+  const sockets = await io.in(userRoom(userId)).fetchSockets();
+  return sockets.length > 0;
 }
 
-function readSessions(): { sessions: SessionItem[] } {
-  ensureStore();
-  const raw = fs.readFileSync(SESS_FILE, "utf8");
-  return JSON.parse(raw) as { sessions: SessionItem[] };
+async function pushSessionList(userId: string): Promise<void> {
+  io.to(userRoom(userId)).emit(
+    "session_list",
+    await sessionStore.listByUser(userId)
+  );
 }
 
-function writeSessions(data: { sessions: SessionItem[] }): void {
-  fs.writeFileSync(SESS_FILE, JSON.stringify(data, null, 2));
+// ---------- VoltAgent setup ----------
+// ---------- Tools (plugins loaded from src/plugins at startup) ----------
+const toolRegistry = loadToolRegistry();
+
+// One agent per persona, built on first use (src/personas.ts)
+const personas = loadPersonaRegistry();
+
+// ---------- Session titles ----------
+const DEFAULT_SESSION_TITLE = "新会话";
+// Auto-titling after the first exchange; set AUTO_TITLE=false to disable
+const AUTO_TITLE = process.env.AUTO_TITLE !== "false";
+
+const titleAgent = new Agent({
+  name: "Session Titler",
+  instructions:
+    "根据对话内容生成一个简短的会话标题（不超过 12 个字），只输出标题本身，不要引号和标点结尾。",
+  model: createModel(AI_TITLE_MODEL),
+});
+
+// Name an untitled session from its first exchange, then push the new list
+async function autoTitleSession(
+  userId: string,
+  sessionId: string
+): Promise<void> {
+  const session = await sessionStore.get(sessionId);
+  if (!session || session.title !== DEFAULT_SESSION_TITLE) return;
+  const msgs = await messageStore.listBySession(userId, sessionId);
+  const texts = msgs.filter((m) => m.message.type === "text");
+  if (texts.filter((m) => m.role === "user").length !== 1) return;
+  const transcript = texts
+    .map((m) => `${m.role === "user" ? "用户" : "助理"}：${m.message.content}`)
+    .join("\n")
+    .slice(0, 2000);
+  const result = await titleAgent.generateText(transcript);
+  const title = result.text
+    .trim()
+    .replace(/^["“'「]+|["”'」]+$/g, "")
+    .slice(0, 30);
+  if (!title) return;
+  // Re-read: the user may have renamed it while we were generating
+  const latest = await sessionStore.get(sessionId);
+  if (!latest || latest.title !== DEFAULT_SESSION_TITLE) return;
+  await sessionStore.upsert({ ...latest, title });
+  await pushSessionList(userId);
 }
 
-function getSessionsForUser(userId: string): SessionItem[] {
-  const data = readSessions();
-  return data.sessions
-    .filter((s) => s.userId === userId)
-    .sort((a, b) => b.updatedAt - a.updatedAt);
+// Registry of in-flight streams: messageId -> partial state. Lets a client
+// that (re)registers or opens the session pick up mid-answer via ai_resume.
+// Each instance owns the streams it started; resume/abort requests are
+// relayed to the other instances with serverSideEmit.
+const activeStreams = new Map<string, ActiveStream>();
+
+function getActiveStreams(userId: string, sessionId?: string): ActiveStream[] {
+  return [...activeStreams.values()].filter(
+    (s) => s.userId === userId && (!sessionId || s.sessionId === sessionId)
+  );
 }
 
-function upsertSession(item: SessionItem): void {
-  const data = readSessions();
-  const idx = data.sessions.findIndex((s) => s.id === item.id);
-  if (idx >= 0) {
-    data.sessions[idx] = item;
-  } else {
-    data.sessions.push(item);
+function emitResume(socketId: string, stream: ActiveStream): void {
+  io.to(socketId).emit("ai_resume", {
+    id: stream.id,
+    sessionId: stream.sessionId,
+    text: stream.text,
+    reasoning: stream.reasoning,
+    sources: stream.sources,
+    seq: stream.seq,
+    tools: stream.tools.map((t) => ({ ...t })),
+  });
+}
+
+// Snapshots are emitted by the owning instance straight to the socket id,
+// so they stay ordered with that instance's later chunks.
+function resumeStreams(
+  socketId: string,
+  userId: string,
+  sessionId?: string
+): void {
+  for (const stream of getActiveStreams(userId, sessionId)) {
+    emitResume(socketId, stream);
+  }
+  if (clusterTransport) {
+    io.serverSideEmit("stream_resume", { socketId, userId, sessionId });
+  }
+}
+
+function abortStreams(
+  userId: string,
+  sessionId: string,
+  id?: string,
+  relay = true
+): void {
+  for (const stream of getActiveStreams(userId, sessionId)) {
+    if (id && stream.id !== id) continue;
+    stream.controller.abort();
+  }
+  if (relay && clusterTransport) {
+    io.serverSideEmit("stream_abort", { userId, sessionId, id });
   }
-  writeSessions(data);
 }
 
-function addMessage(msg: Message): void {
-  const data = readStore();
-  data.messages.push(msg);
-  writeStore(data);
+io.on("stream_resume", ({ socketId, userId, sessionId }) => {
+  for (const stream of getActiveStreams(userId, sessionId)) {
+    emitResume(socketId, stream);
+  }
+  // The queue waits on the instance holding the session
+  if (sessionId && sessionQueues.has(sessionId)) {
+    emitQueue(userId, sessionId, socketId);
+  }
+});
+
+io.on("stream_abort", ({ userId, sessionId, id }) => {
+  abortStreams(userId, sessionId, id, false);
+});
+
+// ---------- Acknowledged delivery ----------
+// Events that carry a stored record (reply, tool trace, approval) are sent
+// with an acknowledgement callback; the record is marked delivered once a tab
+// of the user confirms it (or the stream's HTTP sink took it). Unconfirmed
+// emits are retried with backoff while the user is online; whatever is still
+// undelivered goes out as undelivered_messages on the next register.
+const DELIVERY_ACK_TIMEOUT_MS =
+  Number(process.env.DELIVERY_ACK_TIMEOUT_MS) || 5000;
+const DELIVERY_RETRIES = Number(process.env.DELIVERY_RETRIES ?? 3);
+const DELIVERY_RETRY_MS = 1000; // doubled after each attempt
+
+// Events sent with an acknowledgement callback, and what they carry
+type AckedEvent =
+  | "ai_complete"
+  | "ai_error"
+  | "ai_tool_call"
+  | "ai_tool_result"
+  | "ai_tool_approval_request"
+  | "ai_tool_approval_result";
+type AckedPayloads = {
+  [E in AckedEvent]: Parameters<ServerToClientEvents[E]>[0];
+};
+
+// Emit to every tab of the user; resolves with how many acknowledged
+function emitToUser<E extends AckedEvent>(
+  userId: string,
+  event: E,
+  payload: AckedPayloads[E]
+): Promise<number> {
+  return new Promise((resolve) => {
+    const room = io.to(userRoom(userId)).timeout(DELIVERY_ACK_TIMEOUT_MS);
+    // The timeout callback gets every tab's acknowledgement
+    const done = (_err: Error, acks?: unknown[]) => resolve(acks?.length ?? 0);
+    // One emit per event keeps each payload checked against its event
+    const emitters: { [K in AckedEvent]: (p: AckedPayloads[K]) => boolean } = {
+      ai_complete: (p) => room.emit("ai_complete", p, done),
+      ai_error: (p) => room.emit("ai_error", p, done),
+      ai_tool_call: (p) => room.emit("ai_tool_call", p, done),
+      ai_tool_result: (p) => room.emit("ai_tool_result", p, done),
+      ai_tool_approval_request: (p) =>
+        room.emit("ai_tool_approval_request", p, done),
+      ai_tool_approval_result: (p) =>
+        room.emit("ai_tool_approval_result", p, done),
+    };
+    emitters[event](payload);
+  });
 }
 
-function markMessagesDelivered(ids: string[]): void {
-  if (!ids || ids.length === 0) return;
-  const data = readStore();
-  let changed = false;
-  const now = Date.now();
-  data.messages = data.messages.map((m) => {
-    if (ids.includes(m.id) && !m.delivered) {
-      changed = true;
-      return { ...m, delivered: true, deliveredAt: now };
+async function emitUntilAcked<E extends AckedEvent>(
+  userId: string,
+  event: E,
+  payload: AckedPayloads[E]
+): Promise<boolean> {
+  for (let attempt = 0; ; attempt++) {
+    if ((await emitToUser(userId, event, payload)) > 0) return true;
+    if (attempt >= DELIVERY_RETRIES || !(await isUserOnline(userId))) {
+      return false;
     }
-    return m;
+    await sleep(DELIVERY_RETRY_MS * 2 ** attempt);
+  }
+}
+
+// Emit `record`'s event to the user's tabs and the stream's sink, then mark
+// the record delivered when someone got it. The first emit happens now (in
+// order with the caller's other events); retries run in the background.
+function deliver<E extends AckedEvent>(
+  record: Message,
+  sink: StreamSink | undefined,
+  event: E,
+  payload: AckedPayloads[E]
+): void {
+  const acked = emitUntilAcked(record.to, event, payload);
+  const sunk = sink?.(event, payload) ?? false;
+  (sunk ? Promise.resolve(true) : acked)
+    .then((delivered) =>
+      delivered ? messageStore.markDelivered([record.id]) : undefined
+    )
+    .catch((err) => {
+      // eslint-disable-next-line no-console
+      console.error("Delivery error:", err);
+    });
+}
+
+// Thinking and citations kept with the reply, when it had any
+function streamExtras(stream: ActiveStream): Pick<Message, "reasoning" | "sources"> {
+  return {
+    ...(stream.reasoning ? { reasoning: stream.reasoning } : {}),
+    ...(stream.sources.length > 0 ? { sources: stream.sources } : {}),
+  };
+}
+
+// Persist the AI message (final or partial) and notify the user's tabs
+async function completeStream(
+  stream: ActiveStream,
+  status: MessageStatus
+): Promise<void> {
+  const usage = replyUsage(stream);
+  metrics.recordReply(usage, status);
+  // Session deleted mid-stream: nothing to attach the reply to
+  const session = await sessionStore.get(stream.sessionId);
+  if (!session) return;
+  const finalMsg: Message = {
+    id: stream.id,
+    to: stream.userId,
+    sessionId: stream.sessionId,
+    timestamp: Date.now(),
+    delivered: false,
+    role: "ai",
+    message: { type: "text", content: stream.text } as MessageBody,
+    status,
+    parentId: stream.parentId,
+    usage,
+    ...streamExtras(stream),
+  };
+  await messageStore.add(finalMsg);
+  // Advance the active branch unless the user moved elsewhere meanwhile
+  if (session.activeLeafId === stream.parentId) {
+    await sessionStore.upsert({ ...session, activeLeafId: stream.id });
+  }
+
+  deliver(finalMsg, stream.sink, "ai_complete", {
+    id: stream.id,
+    sessionId: stream.sessionId,
+    text: stream.text,
+    status,
+    usage,
   });
-  if (changed) writeStore(data);
+
+  if (status === "complete" && AUTO_TITLE) {
+    autoTitleSession(stream.userId, stream.sessionId).catch((err) => {
+      // eslint-disable-next-line no-console
+      console.error("Auto title error:", err);
+    });
+  }
 }
 
-// ---------- Server & Socket setup ----------
-const app = express();
-const server = http.createServer(app);
-const io = new Server<
-  ClientToServerEvents,
-  ServerToClientEvents,
-  InterServerEvents,
-  SocketData
->(server);
+// Store a failed reply as an error record (with whatever streamed before the
+// failure) and tell the user's tabs, which offer to retry
+async function failStream(
+  stream: ActiveStream,
+  failure: AIFailure
+): Promise<void> {
+  const usage = replyUsage(stream);
+  metrics.recordReply(usage, "error");
+  if (!(await sessionStore.get(stream.sessionId))) return;
+  const body: ErrorBody = {
+    type: "error",
+    content: failure.message,
+    kind: failure.kind,
+    retryable: failure.retryable,
+    text: stream.text || undefined,
+  };
+  const record: Message = {
+    id: stream.id,
+    to: stream.userId,
+    sessionId: stream.sessionId,
+    timestamp: Date.now(),
+    delivered: false,
+    role: "ai",
+    message: body,
+    parentId: stream.parentId,
+    usage,
+    ...streamExtras(stream),
+  };
+  await messageStore.add(record);
+  deliver(record, stream.sink, "ai_error", {
+    id: stream.id,
+    sessionId: stream.sessionId,
+    kind: body.kind,
+    message: body.content,
+    retryable: body.retryable,
+    text: body.text,
+    usage,
+  });
+}
 
-// Serve static client from dist/public after build
-app.use(express.static(path.join(__dirname, "public")));
-app.get("/health", (_req: Request, res: Response) => res.send("ok"));
+// ---------- Tool approval (human in the loop) ----------
+const approvals = createApprovalGate();
 
-// Track online users: userId -> socketId
-const onlineUsers = new Map<string, string>();
+// Store the decision on a pending request as its own record and announce it
+async function recordApprovalDecision(
+  request: Message,
+  decision: ApprovalDecision,
+  sink?: StreamSink
+): Promise<void> {
+  // Session deleted while waiting: nothing to attach the decision to
+  if (!(await sessionStore.get(request.sessionId))) return;
+  const { content, toolCallId } = request.message as ToolApprovalBody;
+  const body: ToolApprovalBody = {
+    type: "tool_approval",
+    content,
+    toolCallId,
+    input: decision.input,
+    status: decision.status,
+    reason: decision.reason,
+  };
+  const record: Message = {
+    ...request,
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+    delivered: false,
+    message: body,
+  };
+  await messageStore.add(record);
+  deliver(record, sink, "ai_tool_approval_result", {
+    sessionId: request.sessionId,
+    toolCallId,
+    name: content,
+    status: decision.status,
+    input: decision.input,
+    reason: decision.reason,
+  });
+}
 
-// ---------- VoltAgent setup ----------
-if (!process.env.OPENAI_API_KEY) {
-  // eslint-disable-next-line no-console
-  console.warn(
-    "OPENAI_API_KEY not set. AI streaming will fail until provided."
+// Persist the request (so an offline user sees it on session_open), then
+// hold the tool until the user decides, the wait times out or the reply stops
+async function requestApproval(
+  stream: ActiveStream,
+  request: ApprovalRequest,
+  validate: (input: unknown) => string | null,
+  signal?: AbortSignal
+): Promise<ApprovalDecision> {
+  // Wait before announcing, so an immediate answer finds the waiter
+  const decided = approvals.wait(
+    stream.userId,
+    stream.sessionId,
+    request,
+    validate,
+    signal
   );
+  const requestedAt = Date.now();
+  const record: Message = {
+    id: crypto.randomUUID(),
+    to: stream.userId,
+    sessionId: stream.sessionId,
+    timestamp: requestedAt,
+    delivered: false,
+    role: "system",
+    message: {
+      type: "tool_approval",
+      content: request.name,
+      toolCallId: request.toolCallId,
+      input: request.input,
+      status: "pending",
+    },
+    parentId: stream.parentId,
+    replyId: stream.id,
+  };
+  await messageStore.add(record);
+  deliver(record, stream.sink, "ai_tool_approval_request", {
+    sessionId: stream.sessionId,
+    toolCallId: request.toolCallId,
+    name: request.name,
+    input: request.input,
+    requestedAt,
+  });
+  const decision = await decided;
+  await recordApprovalDecision(record, decision, stream.sink);
+  return decision;
 }
 
-// --------- Tools for testing offline + chaining ---------
-const weatherTool = createTool({
-  name: "get_weather",
-  description: "Get the current weather for a specific location (mock).",
-  parameters: z.object({
-    location: z.string().describe("City name, e.g., 上海/北京"),
-  }),
-  execute: async ({ location }) => {
-    // sleep 5s
-    await new Promise((resolve) => setTimeout(resolve, 5000));
-    // Mocked weather; random-ish but bounded
-    const temp = Math.round(18 + Math.random() * 12); // 18-30°C
-    const conditions = ["sunny", "cloudy", "rainy"][
-      Math.floor(Math.random() * 3)
-    ];
-    // eslint-disable-next-line no-console
-    console.log(
-      `[tool:get_weather] location=${location} -> temp=${temp}, cond=${conditions}`
-    );
-    return { temperature: temp, conditions, location };
-  },
-});
-
-const playSpotTool = createTool({
-  name: "suggest_play_spot",
-  description:
-    "Suggest a place to play based on temperature (mock, random pick).",
-  parameters: z.object({
-    temperature: z.number().describe("Temperature in Celsius"),
-  }),
-  execute: async ({ temperature }) => {
-    // sleep 5s
-    await new Promise((resolve) => setTimeout(resolve, 5000));
-    const candidates = ["外滩", "颐和园", "西湖"];
-    const place = candidates[Math.floor(Math.random() * candidates.length)];
-    // eslint-disable-next-line no-console
-    console.log(
-      `[tool:suggest_play_spot] temp=${temperature} -> place=${place}`
-    );
-    return { place, recommendedFor: temperature };
-  },
-});
+// Answer a pending approval. The waiter lives on the instance running the
+// reply; others relay the answer. A request nobody waits for any more (e.g.
+// after a restart) is closed as expired. Returns why the answer was refused.
+async function answerApproval(
+  userId: string,
+  sessionId: string,
+  toolCallId: string,
+  answer: ApprovalAnswer,
+  socketId?: string
+): Promise<string | null> {
+  const refused = approvals.answer(userId, sessionId, toolCallId, answer);
+  if (refused !== undefined) return refused;
+  if (clusterTransport) {
+    io.serverSideEmit("tool_approval", {
+      userId,
+      sessionId,
+      toolCallId,
+      ...answer,
+      socketId,
+    });
+    return null;
+  }
+  const msgs = await messageStore.listBySession(userId, sessionId);
+  const pending = pendingApprovals(msgs).find(
+    (m) => (m.message as ToolApprovalBody).toolCallId === toolCallId
+  );
+  if (!pending) return "该请求已处理";
+  const { input } = pending.message as ToolApprovalBody;
+  await recordApprovalDecision(pending, { status: "expired", input });
+  return "该回复已中断，工具不会再执行";
+}
 
-const agent = new Agent({
-  name: "AI Chat Assistant",
-  instructions:
-    "你是一个简洁友好的助理。若用户询问“今天适合去哪玩”，先调用 get_weather 获取天气（若未指定地点，默认使用“上海”），再调用 suggest_play_spot，传入上一条工具返回的 temperature，最后给出简短建议。",
-  model: openai("gpt-5"),
-  tools: [weatherTool, playSpotTool],
+// Only the owning instance has the waiter; the others ignore the relay
+io.on("tool_approval", ({ userId, sessionId, toolCallId, socketId, ...answer }) => {
+  const refused = approvals.answer(userId, sessionId, toolCallId, answer);
+  if (refused && socketId) {
+    io.to(socketId).emit("ai_tool_approval_result", {
+      sessionId,
+      toolCallId,
+      name: "",
+      status: "pending",
+      error: refused,
+    });
+  }
 });
 
-// Stream state kept local inside startAIStream(); no global map.
-
-function getUndeliveredMessagesFor(userId: string): Message[] {
-  const data = readStore();
-  return data.messages.filter((m) => m.to === userId && !m.delivered);
+// A `source` stream part as stored; other shapes (none so far) are dropped
+function toSourceRef(part: any): SourceRef | null {
+  if (typeof part?.id !== "string") return null;
+  if (part.sourceType === "url" && typeof part.url === "string") {
+    return { id: part.id, kind: "url", url: part.url, title: part.title };
+  }
+  if (part.sourceType === "document") {
+    return {
+      id: part.id,
+      kind: "document",
+      title: part.title,
+      mediaType: part.mediaType,
+      filename: part.filename,
+    };
+  }
+  return null;
 }
 
-async function startAIStream(userId: string, sessionId: string, input: string) {
+// Reply to the (already persisted) user message `parentId`: the prompt is
+// rebuilt from that message's branch so follow-ups keep their context.
+// Events go to the user's sockets and, if given, to `sink` (HTTP/SSE).
+async function startAIStream(
+  userId: string,
+  sessionId: string,
+  parentId: string,
+  sink?: StreamSink
+) {
   // Use a streaming session id (persist only final text message)
   const messageId = crypto.randomUUID();
 
-  // notify client (if connected) to create a bubble
-  const targetSocketId = onlineUsers.get(userId);
-  if (targetSocketId) {
-    io.to(targetSocketId).emit("ai_started", { id: messageId, sessionId });
-  }
+  const stream: ActiveStream = {
+    id: messageId,
+    userId,
+    sessionId,
+    parentId,
+    text: "",
+    seq: 0,
+    tools: [],
+    reasoning: "",
+    sources: [],
+    step: 0,
+    model: AI_MODEL, // until the session's persona is known
+    startedAt: Date.now(),
+    controller: new AbortController(),
+    sink,
+  };
+  activeStreams.set(messageId, stream);
 
-  // Local state per stream
-  let textSoFar = "";
+  // notify clients (if connected) to create a bubble
+  io.to(userRoom(userId)).emit("ai_started", { id: messageId, sessionId });
+  sink?.("ai_started", { id: messageId, sessionId });
   let done = false;
+  let promptChars = 0;
 
-  try {
-    const response = await agent.streamText(input);
+  // One model call: streams until the reply ends, is stopped or throws
+  async function streamOnce(): Promise<void> {
+    const branch = getBranch(
+      await messageStore.listBySession(userId, sessionId),
+      parentId
+    );
+    const history = buildConversation(branch.messages, undefined, (a) =>
+      attachmentStore.readSync(userId, a.attachmentId)
+    );
+    // Image bytes don't count as characters
+    promptChars = JSON.stringify(history, (key, value) =>
+      key === "image" ? "" : value
+    ).length;
+    const session = await sessionStore.get(sessionId);
+    const persona = personas.get(session?.personaId);
+    stream.model = persona.model || AI_MODEL;
+    const allowed = session?.tools ?? persona.tools;
+    const tools = toolRegistry.resolve(allowed).map((tool) =>
+      toolRegistry.requiresApproval(tool.name)
+        ? withApproval(tool, (request, validate, signal) =>
+            requestApproval(stream, request, validate, signal)
+          )
+        : tool
+    );
+    const response = await personas.agent(persona).streamText(history, {
+      abortSignal: stream.controller.signal,
+      tools,
+    });
+    // These reject when the stream ends without output (stopped or failed);
+    // only text is read, on success, so keep them from crashing the process
+    const { text, usage, finishReason } = response as any;
+    for (const result of [text, usage, finishReason]) {
+      Promise.resolve(result).catch(() => undefined);
+    }
 
-    // Process full stream (text deltas, tool calls, tool results, finish)
+    // Tool names by call id: input deltas don't repeat them
+    const inputNames = new Map<string, string>();
+
+    // Process full stream (text and reasoning deltas, tool input, calls and
+    // results, sources, step boundaries, finish)
     for await (const event of (response as any).fullStream) {
-      if (event.type === "text-delta") {
+      if (stream.controller.signal.aborted) break;
+      if (event.type === "reasoning-delta") {
         const delta: string = event.text ?? "";
         if (!done && delta) {
-          textSoFar += delta;
-          const sid = onlineUsers.get(userId);
-          if (sid)
-            io.to(sid).emit("ai_chunk", { id: messageId, sessionId, delta });
+          stream.reasoning += delta;
+          stream.seq += 1;
+          const chunk = { id: messageId, sessionId, delta, seq: stream.seq };
+          io.to(sessionRoom(userId, sessionId)).emit("ai_reasoning", chunk);
+          sink?.("ai_reasoning", chunk);
+        }
+      } else if (
+        event.type === "tool-input-start" ||
+        event.type === "tool-input-delta"
+      ) {
+        if (event.type === "tool-input-start") {
+          inputNames.set(event.id, event.toolName);
+        }
+        const input = {
+          id: messageId,
+          sessionId,
+          toolCallId: event.id,
+          name: inputNames.get(event.id) ?? "",
+          delta: event.type === "tool-input-delta" ? event.delta ?? "" : "",
+        };
+        io.to(sessionRoom(userId, sessionId)).emit("ai_tool_input", input);
+        sink?.("ai_tool_input", input);
+      } else if (event.type === "source") {
+        const source = toSourceRef(event);
+        if (source && !stream.sources.some((s) => s.id === source.id)) {
+          stream.sources.push(source);
+          const payload = { id: messageId, sessionId, source };
+          io.to(sessionRoom(userId, sessionId)).emit("ai_source", payload);
+          sink?.("ai_source", payload);
+        }
+      } else if (event.type === "start-step" || event.type === "finish-step") {
+        if (event.type === "start-step") stream.step += 1;
+        const step = {
+          id: messageId,
+          sessionId,
+          step: stream.step,
+          phase: event.type === "start-step" ? "start" : "finish",
+          finishReason: event.finishReason,
+        } as const;
+        io.to(sessionRoom(userId, sessionId)).emit("ai_step", step);
+        sink?.("ai_step", step);
+      } else if (event.type === "text-delta") {
+        const delta: string = event.text ?? "";
+        if (!done && delta) {
+          if (stream.firstTokenAt === undefined) stream.firstTokenAt = Date.now();
+          stream.text += delta;
+          stream.seq += 1;
+          const chunk = { id: messageId, sessionId, delta, seq: stream.seq };
+          // Only tabs viewing the session need deltas; others resume on open
+          io.to(sessionRoom(userId, sessionId)).emit("ai_chunk", chunk);
+          sink?.("ai_chunk", chunk);
         }
       } else if (event.type === "tool-call") {
+        const startedAt = Date.now();
+        stream.tools.push({
+          toolCallId: event.toolCallId,
+          name: event.toolName,
+          status: "running",
+          startedAt,
+        });
         // persist tool-call as a message (offline replay)
+        const body: ToolUseBody = {
+          type: "tool_use",
+          content: event.toolName,
+          toolCallId: event.toolCallId,
+          input: event.input,
+          startedAt,
+        };
         const toolMsg: Message = {
           id: crypto.randomUUID(),
           to: userId,
           sessionId,
-          timestamp: Date.now(),
+          timestamp: startedAt,
           delivered: false,
           role: "system",
-          message: { type: "tool_use", content: event.toolName } as MessageBody,
+          message: body,
+          parentId,
+          replyId: messageId,
         };
-        addMessage(toolMsg);
-        const sid = onlineUsers.get(userId);
-        if (sid) {
-          io.to(sid).emit("ai_tool_call", { sessionId, name: event.toolName });
-          markMessagesDelivered([toolMsg.id]);
+        await messageStore.add(toolMsg);
+        deliver(toolMsg, sink, "ai_tool_call", {
+          sessionId,
+          name: event.toolName,
+          toolCallId: event.toolCallId,
+          input: event.input,
+          startedAt,
+        });
+      } else if (event.type === "tool-result" || event.type === "tool-error") {
+        const endedAt = Date.now();
+        const running = stream.tools.find(
+          (t) => t.toolCallId === event.toolCallId
+        );
+        if (running) {
+          running.status = event.type === "tool-error" ? "error" : "done";
+          running.endedAt = endedAt;
+        }
+        const startedAt = running?.startedAt ?? endedAt;
+        const body: ToolResultBody = {
+          type: "tool_result",
+          content: event.toolName,
+          toolCallId: event.toolCallId,
+          startedAt,
+          endedAt,
+        };
+        if (event.type === "tool-error") {
+          body.error =
+            event.error instanceof Error
+              ? event.error.message
+              : String(event.error);
+        } else {
+          body.output = event.output;
         }
-      } else if (event.type === "tool-result") {
         const toolResMsg: Message = {
           id: crypto.randomUUID(),
           to: userId,
           sessionId,
-          timestamp: Date.now(),
+          timestamp: endedAt,
           delivered: false,
           role: "system",
-          message: {
-            type: "tool_result",
-            content: event.toolName,
-          } as MessageBody,
+          message: body,
+          parentId,
+          replyId: messageId,
         };
-        addMessage(toolResMsg);
-        const sid = onlineUsers.get(userId);
-        if (sid) {
-          io.to(sid).emit("ai_tool_result", {
-            sessionId,
-            name: event.toolName,
-          });
-          markMessagesDelivered([toolResMsg.id]);
-        }
+        await messageStore.add(toolResMsg);
+        deliver(toolResMsg, sink, "ai_tool_result", {
+          sessionId,
+          name: event.toolName,
+          toolCallId: event.toolCallId,
+          output: body.output,
+          error: body.error,
+          startedAt,
+          endedAt,
+        });
       } else if (event.type === "finish") {
-        // no-op; final text handled below via response.text
+        // Final text handled below via response.text
+        const usage = event.totalUsage;
+        stream.tokens = {
+          prompt: usage?.inputTokens,
+          completion: usage?.outputTokens,
+          total: usage?.totalTokens,
+        };
       }
     }
 
+    if (stream.controller.signal.aborted) return;
     // Final values resolve when streaming completes
-    const finalText = await (response as any).text;
-    textSoFar = finalText || textSoFar;
-    done = true;
-    // Persist final message only now
-    const finalMsg: Message = {
-      id: messageId,
-      to: userId,
-      sessionId,
-      timestamp: Date.now(),
-      delivered: false,
-      role: "ai",
-      message: { type: "text", content: textSoFar || "" } as MessageBody,
-    };
-    addMessage(finalMsg);
+    stream.text = (await (response as any).text) || stream.text;
+  }
 
-    // If user online at finish time, emit completion and mark delivered
-    const sid = onlineUsers.get(userId);
-    if (sid) {
-      io.to(sid).emit("ai_complete", {
-        id: messageId,
-        sessionId,
-        text: textSoFar || "",
-      });
-      markMessagesDelivered([messageId]);
+  try {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await streamOnce();
+        break;
+      } catch (err) {
+        const failure = classifyAIError(err);
+        metrics.recordError(failure.kind);
+        // Only a reply that produced nothing yet can start over
+        const untouched = stream.seq === 0 && stream.tools.length === 0;
+        if (
+          stream.controller.signal.aborted ||
+          !failure.retryable ||
+          !untouched ||
+          attempt > AI_RETRY_MAX
+        ) {
+          throw err;
+        }
+        const retryInMs = retryDelayMs(failure, attempt);
+        // eslint-disable-next-line no-console
+        console.warn(`AI stream error, retry in ${retryInMs}ms:`, failure.message);
+        const notice = {
+          id: messageId,
+          sessionId,
+          kind: failure.kind,
+          message: failure.message,
+          retryable: true,
+          retryInMs,
+        };
+        io.to(userRoom(userId)).emit("ai_error", notice);
+        sink?.("ai_error", notice);
+        await sleep(retryInMs, stream.controller.signal);
+      }
     }
+    done = true;
+    // Persist final message only now
+    await completeStream(
+      stream,
+      stream.controller.signal.aborted ? "aborted" : "complete"
+    );
   } catch (err) {
+    if (stream.controller.signal.aborted) {
+      // Stopped by the user: keep whatever streamed so far
+      if (!done) await completeStream(stream, "aborted");
+      done = true;
+      return;
+    }
     // eslint-disable-next-line no-console
     console.error("AI stream error:", err);
-    // Mark local done (optional)
     done = true;
+    await failStream(stream, classifyAIError(err));
+  } finally {
+    activeStreams.delete(messageId);
+    // Aborted or failed streams report no usage: estimate ~4 chars a token
+    limiter.recordTokens(
+      userId,
+      stream.tokens?.total ?? Math.ceil((promptChars + stream.text.length) / 4)
+    );
+    startNextQueued(sessionId);
+  }
+}
+
+// startAIStream for callers that drop the promise: a failure while recording
+// the outcome (e.g. a store write) is logged instead of becoming an
+// unhandled rejection, which would end the process
+function startReply(
+  userId: string,
+  sessionId: string,
+  parentId: string,
+  sink?: StreamSink
+): Promise<void> {
+  return startAIStream(userId, sessionId, parentId, sink).catch((err) => {
+    // eslint-disable-next-line no-console
+    console.error("AI reply error:", err);
+  });
+}
+
+// Re-send the active branch to every tab viewing the session
+async function broadcastBranch(userId: string, sessionId: string) {
+  const session = await sessionStore.get(sessionId);
+  const msgs = await messageStore.listBySession(userId, sessionId);
+  const branch = getBranch(msgs, session?.activeLeafId);
+  io.to(sessionRoom(userId, sessionId)).emit("session_messages", {
+    sessionId,
+    messages: branch.messages,
+    siblings: branch.siblings,
+  });
+}
+
+// Point the session at a new leaf and bump updatedAt
+async function setActiveLeaf(
+  userId: string,
+  sessionId: string,
+  leafId: string
+): Promise<void> {
+  const target = await sessionStore.get(sessionId);
+  if (!target || target.userId !== userId) return;
+  await sessionStore.upsert({
+    ...target,
+    activeLeafId: leafId,
+    updatedAt: Date.now(),
+  });
+  await pushSessionList(userId);
+}
+
+// Persist a user message under `parentId`, with a record per attached file,
+// and make it the active leaf
+async function addUserMessage(
+  userId: string,
+  sessionId: string,
+  text: string,
+  parentId: string | null,
+  files: AttachmentInfo[] = []
+): Promise<{ message: Message; attachments: Message[] }> {
+  const now = Date.now();
+  const userMsg: Message = {
+    id: crypto.randomUUID(),
+    to: userId,
+    sessionId,
+    timestamp: now,
+    delivered: true,
+    deliveredAt: now,
+    role: "user",
+    message: { type: "text", content: text },
+    parentId,
+  };
+  await messageStore.add(userMsg);
+  const attachments = files.map(
+    (file): Message => ({
+      ...userMsg,
+      id: crypto.randomUUID(),
+      message: attachmentBody(file),
+      parentId: userMsg.id,
+    })
+  );
+  for (const record of attachments) await messageStore.add(record);
+  await setActiveLeaf(userId, sessionId, userMsg.id);
+  return { message: userMsg, attachments };
+}
+
+// Create (or re-announce) a session owned by `userId`; null if the id
+// belongs to someone else
+async function createSession(
+  userId: string,
+  sessionId: string,
+  title?: string,
+  personaId?: string
+): Promise<SessionItem | null> {
+  const now = Date.now();
+  const existing = await sessionStore.get(sessionId);
+  if (existing && existing.userId !== userId) return null;
+  const item = {
+    id: sessionId,
+    userId,
+    title:
+      title && title.trim() ? title : existing?.title || DEFAULT_SESSION_TITLE,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    personaId: validPersonaId(personaId) ?? existing?.personaId,
+  } as SessionItem;
+  await sessionStore.upsert({ ...existing, ...item });
+  await pushSessionList(userId);
+  return item;
+}
+
+// Patch a session owned by `userId` and push the new list; null if not theirs
+async function updateSession(
+  userId: string,
+  sessionId: string,
+  patch: Partial<SessionItem>
+): Promise<SessionItem | null> {
+  const existing = await sessionStore.get(sessionId);
+  if (!existing || existing.userId !== userId) return null;
+  const updated = { ...existing, ...patch };
+  await sessionStore.upsert(updated);
+  await pushSessionList(userId);
+  return updated;
+}
+
+// Keep only names of loaded tools, without duplicates
+function validToolNames(names: unknown): string[] | null {
+  if (!Array.isArray(names)) return null;
+  return [...new Set(names)].filter(
+    (n): n is string => typeof n === "string" && toolRegistry.has(n)
+  );
+}
+
+function validPersonaId(id: unknown): string | undefined {
+  return typeof id === "string" && personas.has(id) ? id : undefined;
+}
+
+// Switch a session's persona; its tools fall back to the persona's defaults
+async function setSessionPersona(
+  userId: string,
+  sessionId: string,
+  personaId: unknown
+): Promise<SessionItem | null> {
+  const id = validPersonaId(personaId);
+  if (!id) return null;
+  return updateSession(userId, sessionId, { personaId: id, tools: undefined });
+}
+
+// Delete a session with its messages, stopping any reply in progress
+async function deleteSession(
+  userId: string,
+  sessionId: string
+): Promise<boolean> {
+  const existing = await sessionStore.get(sessionId);
+  if (!existing || existing.userId !== userId) return false;
+  cancelQueued(userId, sessionId);
+  abortStreams(userId, sessionId);
+  const files = attachmentIds(
+    await messageStore.listBySession(userId, sessionId)
+  );
+  await sessionStore.delete(sessionId);
+  await messageStore.deleteBySession(userId, sessionId);
+  await pushSessionList(userId);
+  if (files.length > 0) {
+    // Files are shared by content: keep those other sessions still use
+    const remaining: Message[] = [];
+    for (const s of await sessionStore.listByUser(userId)) {
+      remaining.push(...(await messageStore.listBySession(userId, s.id)));
+    }
+    await attachmentStore.prune(userId, files, remaining);
+  }
+  return true;
+}
+
+// ---------- Per-session queue and per-user limits ----------
+// A session streams one reply at a time across the cluster: the instance
+// starting a reply claims the session in the shared lock store and holds it
+// until the session's queue is empty. Messages sent meanwhile wait in the
+// holder's queue (SESSION_QUEUE_MODE=queue, default) or are rejected
+// (=reject); other instances relay them to the holder. Per-user limits are
+// counted by each instance.
+const SESSION_QUEUE_MODE = process.env.SESSION_QUEUE_MODE || "queue";
+const SESSION_QUEUE_MAX = Number(process.env.SESSION_QUEUE_MAX) || 5;
+const SESSION_LOCK_TTL_MS = 30000; // renewed every third of it while held
+// Names this instance as a lock owner and relay origin
+const INSTANCE_ID = crypto.randomUUID();
+
+const limiter = createUsageLimiter();
+
+interface PendingSend extends QueuedSend {
+  userId: string;
+  sessionId: string;
+  sink?: StreamSink;
+  settle: () => void; // resolves the sender's `reply`
+}
+
+const sessionQueues = new Map<string, PendingSend[]>();
+// Sessions whose user message is being stored, before the stream registers
+const startingSessions = new Set<string>();
+// Sessions this instance holds the cluster lock on
+const heldSessions = new Set<string>();
+// Start decisions, claims and releases of a session, one at a time
+const sessionTurns = new Map<string, Promise<unknown>>();
+
+function emitQueue(
+  userId: string,
+  sessionId: string,
+  socketId?: string
+): void {
+  const items = (sessionQueues.get(sessionId) ?? []).map(
+    ({ id, text, attachments, queuedAt }) => ({
+      id,
+      text,
+      attachments,
+      queuedAt,
+    })
+  );
+  io.to(socketId ?? sessionRoom(userId, sessionId)).emit("ai_queue", {
+    sessionId,
+    items,
+  });
+}
+
+function isStreaming(sessionId: string): boolean {
+  return [...activeStreams.values()].some((s) => s.sessionId === sessionId);
+}
+
+// A reply runs, starts or waits in the session on this instance
+function isSessionBusy(sessionId: string): boolean {
+  return (
+    startingSessions.has(sessionId) ||
+    isStreaming(sessionId) ||
+    (sessionQueues.get(sessionId)?.length ?? 0) > 0
+  );
+}
+
+// Run `step` after the session's earlier steps have finished
+function inTurn<T>(sessionId: string, step: () => Promise<T>): Promise<T> {
+  const result = (sessionTurns.get(sessionId) ?? Promise.resolve()).then(step);
+  const turn = result.catch(() => undefined);
+  sessionTurns.set(sessionId, turn);
+  turn.then(() => {
+    if (sessionTurns.get(sessionId) === turn) sessionTurns.delete(sessionId);
+  });
+  return result;
+}
+
+const lockKey = (sessionId: string) => `session:${sessionId}`;
+
+// Claim the session for this instance (within a turn); false if another
+// instance holds it. Always granted without a cluster.
+async function claimSession(sessionId: string): Promise<boolean> {
+  if (!clusterTransport || heldSessions.has(sessionId)) return true;
+  const claimed = await lockStore.acquire(
+    lockKey(sessionId),
+    INSTANCE_ID,
+    SESSION_LOCK_TTL_MS
+  );
+  if (claimed) heldSessions.add(sessionId);
+  return claimed;
+}
+
+// Let the session go once nothing runs or waits in it here
+function releaseSession(sessionId: string): Promise<void> {
+  return inTurn(sessionId, async () => {
+    if (!heldSessions.has(sessionId)) return;
+    // Relayed in after the queue ran empty
+    if (!isStreaming(sessionId) && sessionQueues.has(sessionId)) {
+      startNextQueued(sessionId);
+      return;
+    }
+    if (isSessionBusy(sessionId)) return;
+    heldSessions.delete(sessionId);
+    await lockStore.release(lockKey(sessionId), INSTANCE_ID);
+  });
+}
+
+// Renew the held claims; one lost meanwhile (say, after a long stall) lets
+// its reply run to the end all the same
+if (clusterTransport) {
+  setInterval(() => {
+    for (const sessionId of heldSessions) {
+      inTurn(sessionId, async () => {
+        if (!heldSessions.has(sessionId)) return;
+        const key = lockKey(sessionId);
+        if (!(await lockStore.acquire(key, INSTANCE_ID, SESSION_LOCK_TTL_MS))) {
+          // eslint-disable-next-line no-console
+          console.warn(`Lost the lock on session ${sessionId}`);
+        }
+      }).catch((err) => {
+        // eslint-disable-next-line no-console
+        console.error("Session lock renewal error:", err);
+      });
+    }
+  }, SESSION_LOCK_TTL_MS / 3).unref();
+}
+
+// Tell the user's clients why a reply did not start
+function rejectSend(
+  userId: string,
+  sessionId: string,
+  hit: LimitHit,
+  text?: string
+): void {
+  io.to(userRoom(userId)).emit("ai_rejected", { sessionId, ...hit, text });
+}
+
+// Check the user's limits and count the request; the hit if over a limit
+function admit(userId: string, streaming: number): LimitHit | null {
+  const hit = limiter.check(userId, streaming);
+  if (!hit) limiter.recordRequest(userId);
+  return hit;
+}
+
+const SESSION_BUSY: LimitHit = {
+  reason: "session_busy",
+  message: "当前会话正在生成回复，请稍后再试",
+};
+
+// Persist a user message under `parentId` (default: the active leaf) and
+// stream the reply
+async function startUserMessage(
+  userId: string,
+  sessionId: string,
+  text: string,
+  files: AttachmentInfo[],
+  parentId?: string,
+  sink?: StreamSink
+): Promise<{ message: Message; reply: Promise<void> }> {
+  const session = await sessionStore.get(sessionId);
+  const msgs = await messageStore.listBySession(userId, sessionId);
+  const parent =
+    parentId && msgs.some((m) => m.id === parentId)
+      ? parentId
+      : getBranch(msgs, session?.activeLeafId).leafId;
+  // Persist user message immediately so it appears in history
+  const { message, attachments } = await addUserMessage(
+    userId,
+    sessionId,
+    text,
+    parent,
+    files
+  );
+  // Every tab viewing this session (the sender too) renders it with its id
+  for (const m of [message, ...attachments]) {
+    io.to(sessionRoom(userId, sessionId)).emit("message_added", m);
+    sink?.("message_added", m);
+  }
+  return { message, reply: startReply(userId, sessionId, message.id, sink) };
+}
+
+// Reserve the session for a reply starting here (within a turn): false if a
+// reply runs, starts or waits in it, here or on another instance
+async function reserveSession(sessionId: string): Promise<boolean> {
+  if (isSessionBusy(sessionId) || !(await claimSession(sessionId))) {
+    return false;
+  }
+  startingSessions.add(sessionId);
+  return true;
+}
+
+// A reserved start is over: its stream has registered and holds the session,
+// or nothing started and the session moves on to its queue
+function endStart(sessionId: string): void {
+  startingSessions.delete(sessionId);
+  if (!isStreaming(sessionId)) startNextQueued(sessionId);
+}
+
+// Queue a message behind the session's reply, or refuse it
+function enqueue(
+  send: Omit<PendingSend, "id" | "queuedAt">
+): RelayOutcome {
+  const { userId, sessionId, text } = send;
+  const queue = sessionQueues.get(sessionId) ?? [];
+  let hit: LimitHit | null;
+  if (SESSION_QUEUE_MODE !== "queue") {
+    hit = SESSION_BUSY;
+  } else if (queue.length >= SESSION_QUEUE_MAX) {
+    hit = {
+      reason: "queue_full",
+      message: `排队消息已达上限（${SESSION_QUEUE_MAX} 条），请等待当前回复完成`,
+    };
+  } else {
+    // A queued send reuses the session's stream slot when its turn comes
+    hit = admit(userId, 0);
+  }
+  if (hit) {
+    rejectSend(userId, sessionId, hit, text);
+    return { status: "rejected", hit };
+  }
+  const pending: PendingSend = {
+    ...send,
+    id: crypto.randomUUID(),
+    queuedAt: Date.now(),
+  };
+  sessionQueues.set(sessionId, [...queue, pending]);
+  emitQueue(userId, sessionId);
+  return { status: "queued", id: pending.id };
+}
+
+// Send a message: start the reply now, queue it behind the session's current
+// reply (here, or relayed to the instance holding the session), or reject
+// it. `parentId` is the last message the client shows; a queued message
+// instead follows whatever the session ends with. Null if the session does
+// not exist or belongs to another user.
+async function sendUserMessage(
+  userId: string,
+  sessionId: string,
+  text: string,
+  files: AttachmentInfo[],
+  parentId?: string,
+  sink?: StreamSink
+): Promise<SendOutcome | null> {
+  const session = await sessionStore.get(sessionId);
+  if (!session || session.userId !== userId) return null;
+
+  let settle!: () => void;
+  const reply = new Promise<void>((resolve) => (settle = resolve));
+  const send = {
+    userId,
+    sessionId,
+    text,
+    attachments: files.length > 0 ? files : undefined,
+    sink,
+    settle,
+  };
+  // The holder may let go of the session while a message is relayed to it
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const outcome = await inTurn(sessionId, async () => {
+      if (await reserveSession(sessionId)) return null;
+      return isSessionBusy(sessionId) ? enqueue(send) : undefined;
+    });
+    if (outcome === null) {
+      try {
+        const hit = admit(userId, getActiveStreams(userId).length);
+        if (hit) {
+          rejectSend(userId, sessionId, hit, text);
+          return { status: "rejected", hit };
+        }
+        const started = await startUserMessage(
+          userId,
+          sessionId,
+          text,
+          files,
+          parentId,
+          sink
+        );
+        return { status: "started", ...started };
+      } finally {
+        endStart(sessionId);
+      }
+    }
+    const queued = outcome ?? (await relaySend(send));
+    if (queued?.status === "queued") {
+      return { status: "queued", id: queued.id, reply };
+    }
+    if (queued) return queued;
+  }
+  rejectSend(userId, sessionId, SESSION_BUSY, text);
+  return { status: "rejected", hit: SESSION_BUSY };
+}
+
+// ---------- Relayed sends ----------
+// A message for a session held by another instance goes to that instance's
+// queue. If it came with an HTTP stream, the holder sends the reply's events
+// back (send_event) and reports when its turn is over (send_settled).
+const relayedStreams = new Map<string, { sink: StreamSink; settle: () => void }>();
+
+// Hand a message to the instance holding its session; null if none does
+// (it let go meanwhile)
+function relaySend(
+  send: Omit<PendingSend, "id" | "queuedAt">
+): Promise<RelayOutcome | null> {
+  const { userId, sessionId, text, attachments, sink, settle } = send;
+  const requestId = sink ? crypto.randomUUID() : undefined;
+  if (requestId) relayedStreams.set(requestId, { sink: sink!, settle });
+  return new Promise((resolve) => {
+    io.serverSideEmit(
+      "session_enqueue",
+      { origin: INSTANCE_ID, requestId, userId, sessionId, text, attachments },
+      (_err, answers) => {
+        // Instances that did not answer in time hold nothing either
+        const outcome = (answers ?? []).find((a) => a) ?? null;
+        if (requestId && outcome?.status !== "queued") {
+          relayedStreams.delete(requestId);
+        }
+        resolve(outcome);
+      }
+    );
+  });
+}
+
+// Reply events of a relayed message, for the HTTP stream on its origin
+function relaySink(origin: string, requestId: string): StreamSink {
+  return (event, payload) => {
+    io.serverSideEmit("send_event", { origin, requestId, event, payload });
+    return false; // whether the client got it is not known here
+  };
+}
+
+io.on("session_enqueue", (send, answer) => {
+  const { origin, requestId } = send;
+  inTurn(send.sessionId, async () => {
+    if (!heldSessions.has(send.sessionId)) return null;
+    return enqueue({
+      userId: send.userId,
+      sessionId: send.sessionId,
+      text: send.text,
+      attachments: send.attachments,
+      sink: requestId ? relaySink(origin, requestId) : undefined,
+      settle: () => {
+        if (requestId) io.serverSideEmit("send_settled", { origin, requestId });
+      },
+    });
+  }).then(answer, (err) => {
+    // eslint-disable-next-line no-console
+    console.error("Relayed send error:", err);
+    answer(null);
+  });
+});
+
+io.on("send_event", ({ origin, requestId, event, payload }) => {
+  if (origin !== INSTANCE_ID) return;
+  relayedStreams
+    .get(requestId)
+    ?.sink(event, payload as Parameters<ServerToClientEvents[typeof event]>[0]);
+});
+
+io.on("send_settled", ({ origin, requestId }) => {
+  if (origin !== INSTANCE_ID) return;
+  relayedStreams.get(requestId)?.settle();
+  relayedStreams.delete(requestId);
+});
+
+// Called when a session's reply ends (or a start did not happen): start its
+// oldest queued message, or let the session go
+function startNextQueued(sessionId: string): void {
+  // A start in progress moves the queue on itself when it ends
+  if (startingSessions.has(sessionId)) return;
+  const queue = sessionQueues.get(sessionId);
+  const next = queue?.shift();
+  if (!queue || !next) {
+    releaseSession(sessionId).catch((err) => {
+      // eslint-disable-next-line no-console
+      console.error("Session lock release error:", err);
+    });
+    return;
+  }
+  if (queue.length === 0) sessionQueues.delete(sessionId);
+  emitQueue(next.userId, sessionId);
+  startingSessions.add(sessionId);
+  startUserMessage(
+    next.userId,
+    sessionId,
+    next.text,
+    next.attachments ?? [],
+    undefined,
+    next.sink
+  )
+    .finally(() => endStart(sessionId))
+    .then(({ reply }) => reply)
+    .catch((err) => {
+      // eslint-disable-next-line no-console
+      console.error("Queued send error:", err);
+    })
+    .finally(next.settle);
+}
+
+// Drop queued messages (one, or all of the session's), wherever they wait
+function cancelQueued(
+  userId: string,
+  sessionId: string,
+  id?: string,
+  relay = true
+): void {
+  if (relay && clusterTransport) {
+    io.serverSideEmit("queue_cancel", { userId, sessionId, id });
+  }
+  const queue = sessionQueues.get(sessionId);
+  if (!queue) return;
+  const kept = queue.filter((p) => {
+    const drop = p.userId === userId && (!id || p.id === id);
+    if (drop) p.settle();
+    return !drop;
+  });
+  if (kept.length > 0) sessionQueues.set(sessionId, kept);
+  else sessionQueues.delete(sessionId);
+  emitQueue(userId, sessionId);
+}
+
+io.on("queue_cancel", ({ userId, sessionId, id }) => {
+  cancelQueued(userId, sessionId, id, false);
+});
+
+// Edit / regenerate / retry start a reply right away: refused while the
+// session is busy (on any instance) or the user is over a limit. `start`
+// stores what the reply answers and starts it.
+async function startNow(
+  userId: string,
+  sessionId: string,
+  start: () => Promise<void>
+): Promise<void> {
+  if (!(await inTurn(sessionId, () => reserveSession(sessionId)))) {
+    rejectSend(userId, sessionId, SESSION_BUSY);
+    return;
+  }
+  try {
+    const hit = admit(userId, getActiveStreams(userId).length);
+    if (hit) {
+      rejectSend(userId, sessionId, hit);
+      return;
+    }
+    await start();
   } finally {
-    // no global stream registry; nothing to cleanup here
+    endStart(sessionId);
   }
 }
 
+// Recreate exported sessions for `userId` (fresh ids) and refresh its tabs
+async function importUserSessions(
+  userId: string,
+  exports: SessionExport[]
+): Promise<SessionItem[]> {
+  const created = await importSessions(
+    sessionStore,
+    messageStore,
+    userId,
+    exports
+  );
+  await pushSessionList(userId);
+  return created;
+}
+
+// Search: sessions per response and longest query accepted
+const SEARCH_LIMIT = 20;
+const SEARCH_QUERY_MAX = 200;
+
+// Socket handlers are async now that the store is; log failures instead of
+// letting a rejected promise take the process down.
+function safe<T extends unknown[]>(fn: (...args: T) => Promise<void>) {
+  return (...args: T): void => {
+    fn(...args).catch((err) => {
+      // eslint-disable-next-line no-console
+      console.error("Socket handler error:", err);
+    });
+  };
+}
+
+// ---------- HTTP API (same operations as the socket events) ----------
+app.use(
+  "/api",
+  requireAuth,
+  createApiRouter({
+    sessions: sessionStore,
+    messages: messageStore,
+    createSession,
+    deleteSession,
+    sendUserMessage,
+    importSessions: importUserSessions,
+    search: searchStore,
+    attachments: attachmentStore,
+    listTools: () => toolRegistry.list(),
+    listPersonas: () => personas.list(),
+    setSessionPersona,
+    answerApproval,
+    setSessionTools: async (userId, sessionId, tools) => {
+      const names = validToolNames(tools);
+      return names ? updateSession(userId, sessionId, { tools: names }) : null;
+    },
+  })
+);
+
 io.on("connection", (socket) => {
-  socket.on("register", ({ userId }) => {
+  if (socket.data.userId) socket.join(userRoom(socket.data.userId));
+
+  socket.on("register", safe(async () => {
+    const userId = socket.data.userId;
     if (!userId) return;
-    socket.data.userId = userId;
-    onlineUsers.set(userId, socket.id);
 
     // Push session list
-    const sessions = getSessionsForUser(userId);
+    const sessions = await sessionStore.listByUser(userId);
     socket.emit("session_list", sessions);
+    socket.emit("tool_list", toolRegistry.list());
+    socket.emit("persona_list", {
+      personas: personas.list(),
+      defaultId: DEFAULT_PERSONA,
+    });
 
-    // For an active AI stream, don't replay current buffer; new chunks will stream.
-  });
+    // Replay partial state of in-flight streams; live chunks follow with seq.
+    resumeStreams(socket.id, userId);
+
+    // Records that reached no tab while the user was away; delivered once
+    // this tab acknowledges them
+    const missed = await messageStore.listUndelivered(userId);
+    if (missed.length === 0) return;
+    socket
+      .timeout(DELIVERY_ACK_TIMEOUT_MS)
+      .emit("undelivered_messages", { messages: missed }, (err) => {
+        if (err) return; // sent again on the next register
+        messageStore.markDelivered(missed.map((m) => m.id)).catch((e) => {
+          // eslint-disable-next-line no-console
+          console.error("Delivery error:", e);
+        });
+      });
+  }));
 
   // Create a session
-  socket.on("session_create", ({ sessionId, title }) => {
+  socket.on("session_create", safe(async ({ sessionId, title, personaId }, ack) => {
     const userId = socket.data.userId;
     if (!userId || !sessionId) return;
-    const now = Date.now();
-    const existing = getSessionsForUser(userId).find((s) => s.id === sessionId);
-    const item = {
-      id: sessionId,
-      userId,
-      title: title && title.trim() ? title : existing?.title || "新会话",
-      createdAt: existing?.createdAt ?? now,
-      updatedAt: now,
-    } as SessionItem;
-    upsertSession(item);
-    socket.emit("session_list", getSessionsForUser(userId));
-  });
+    await createSession(userId, sessionId, title, personaId);
+    ack?.();
+  }));
 
   // Open a session and send its messages
-  socket.on("session_open", ({ sessionId }) => {
+  socket.on("session_open", safe(async ({ sessionId }) => {
     const userId = socket.data.userId;
     if (!userId || !sessionId) return;
-    const data = readStore();
-    const msgs = data.messages
-      .filter((m) => m.to === userId && m.sessionId === sessionId)
-      .sort((a, b) => a.timestamp - b.timestamp);
-    socket.emit("session_messages", { sessionId, messages: msgs });
-  });
+    // Someone else's session: join nothing, send nothing
+    const session = await sessionStore.get(sessionId);
+    if (session && session.userId !== userId) return;
+    // A tab views one session at a time
+    if (socket.data.sessionId) {
+      socket.leave(sessionRoom(userId, socket.data.sessionId));
+    }
+    socket.data.sessionId = sessionId;
+    socket.join(sessionRoom(userId, sessionId));
+    const msgs = await messageStore.listBySession(userId, sessionId);
+    const branch = getBranch(msgs, session?.activeLeafId);
+    socket.emit("session_messages", {
+      sessionId,
+      messages: branch.messages,
+      siblings: branch.siblings,
+    });
+    resumeStreams(socket.id, userId, sessionId);
+    emitQueue(userId, sessionId, socket.id);
+    // Requests made while the user was away (or in another tab) still wait
+    for (const m of pendingApprovals(branch.messages)) {
+      const { toolCallId, content, input } = m.message as ToolApprovalBody;
+      socket.emit("ai_tool_approval_request", {
+        sessionId,
+        toolCallId,
+        name: content,
+        input,
+        requestedAt: m.timestamp,
+      });
+    }
+  }));
 
   // User -> AI: start streaming response in session
-  socket.on("ai_send", ({ sessionId, text }) => {
+  socket.on("ai_send", safe(async ({ sessionId, text, parentId, attachments }) => {
     const from = socket.data.userId;
-    if (!from || !text || !sessionId) return;
-    // Persist user message immediately so it appears in history
-    const userMsg: Message = {
-      id: crypto.randomUUID(),
-      to: from,
-      sessionId,
-      timestamp: Date.now(),
-      delivered: true,
-      deliveredAt: Date.now(),
-      role: "user",
-      message: { type: "text", content: text },
-    };
-    addMessage(userMsg);
-    startAIStream(from, sessionId, text);
-    // bump session updatedAt
-    const sessions = getSessionsForUser(from);
-    const target = sessions.find((s) => s.id === sessionId);
-    if (target) {
-      upsertSession({ ...target, updatedAt: Date.now() });
+    if (!from || !sessionId) return;
+    const files = await attachmentStore.resolve(from, attachments);
+    if (typeof files === "string") {
+      socket.emit("attachment_error", { sessionId, error: files });
+      return;
     }
+    if (!text && files.length === 0) return;
+    await sendUserMessage(from, sessionId, text || "", files, parentId);
+  }));
+
+  // Edit a past user message: fork a new branch from its parent
+  socket.on("message_edit", safe(async ({ sessionId, messageId, text }) => {
+    const userId = socket.data.userId;
+    if (!userId || !sessionId || !text || !text.trim()) return;
+    const msgs = await messageStore.listBySession(userId, sessionId);
+    const original = msgs.find((m) => m.id === messageId);
+    if (!original || original.role !== "user") return;
+    if (original.message.type !== "text") return;
+    const parent = getParentId(msgs, messageId);
+    await startNow(userId, sessionId, async () => {
+      // The edited message keeps the original's files
+      const { message } = await addUserMessage(
+        userId,
+        sessionId,
+        text.trim(),
+        parent,
+        attachedFiles(msgs, messageId)
+      );
+      await broadcastBranch(userId, sessionId);
+      startReply(userId, sessionId, message.id);
+    });
+  }));
+
+  // Regenerate an AI answer: a new sibling reply to the same user message
+  socket.on("ai_regenerate", safe(async ({ sessionId, messageId }) => {
+    const userId = socket.data.userId;
+    if (!userId || !sessionId) return;
+    const msgs = await messageStore.listBySession(userId, sessionId);
+    const original = msgs.find((m) => m.id === messageId);
+    if (!original || original.role !== "ai") return;
+    const parent = getParentId(msgs, messageId);
+    if (!parent) return;
+    await startNow(userId, sessionId, async () => {
+      await setActiveLeaf(userId, sessionId, parent);
+      await broadcastBranch(userId, sessionId);
+      startReply(userId, sessionId, parent);
+    });
+  }));
+
+  // Retry a failed reply: a new reply to the same user message
+  socket.on("ai_retry", safe(async ({ sessionId, messageId }) => {
+    const userId = socket.data.userId;
+    if (!userId || !sessionId) return;
+    const msgs = await messageStore.listBySession(userId, sessionId);
+    const failed = msgs.find((m) => m.id === messageId);
+    if (!failed || failed.message.type !== "error" || !failed.parentId) return;
+    const parent = failed.parentId;
+    await startNow(userId, sessionId, async () => {
+      await setActiveLeaf(userId, sessionId, parent);
+      await broadcastBranch(userId, sessionId);
+      startReply(userId, sessionId, parent);
+    });
+  }));
+
+  // Show another sibling: jump to its most recent leaf
+  socket.on("branch_switch", safe(async ({ sessionId, messageId }) => {
+    const userId = socket.data.userId;
+    if (!userId || !sessionId) return;
+    const msgs = await messageStore.listBySession(userId, sessionId);
+    if (!msgs.some((m) => m.id === messageId)) return;
+    await setActiveLeaf(userId, sessionId, resolveLeaf(msgs, messageId));
+    await broadcastBranch(userId, sessionId);
+  }));
+
+  // Session management: rename / delete / archive / pin
+  async function updateOwnSession(
+    sessionId: string,
+    patch: Partial<SessionItem>
+  ): Promise<void> {
+    const userId = socket.data.userId;
+    if (!userId || !sessionId) return;
+    await updateSession(userId, sessionId, patch);
+  }
+
+  socket.on("session_rename", safe(async ({ sessionId, title }) => {
+    const trimmed = typeof title === "string" ? title.trim() : "";
+    if (!trimmed) return;
+    await updateOwnSession(sessionId, { title: trimmed.slice(0, 100) });
+  }));
+
+  socket.on("session_archive", safe(async ({ sessionId, archived }) => {
+    await updateOwnSession(sessionId, { archived: !!archived });
+  }));
+
+  socket.on("session_pin", safe(async ({ sessionId, pinned }) => {
+    await updateOwnSession(sessionId, { pinned: !!pinned });
+  }));
+
+  // Tools the agent may use in this session
+  socket.on("session_tools", safe(async ({ sessionId, tools }) => {
+    const names = validToolNames(tools);
+    if (!names) return;
+    await updateOwnSession(sessionId, { tools: names });
+  }));
+
+  socket.on("session_persona", safe(async ({ sessionId, personaId }) => {
+    const userId = socket.data.userId;
+    if (!userId || !sessionId) return;
+    await setSessionPersona(userId, sessionId, personaId);
+  }));
+
+  socket.on("session_delete", safe(async ({ sessionId }) => {
+    const userId = socket.data.userId;
+    if (!userId || !sessionId) return;
+    await deleteSession(userId, sessionId);
+  }));
+
+  // Full-text search over the user's sessions; answered to this socket only
+  socket.on("search", safe(async ({ query, limit }) => {
+    const userId = socket.data.userId;
+    if (!userId || typeof query !== "string") return;
+    const results = await searchStore.search(
+      userId,
+      query.slice(0, SEARCH_QUERY_MAX),
+      Math.min(Math.max(Number(limit) || SEARCH_LIMIT, 1), SEARCH_LIMIT)
+    );
+    socket.emit("search_results", { query, results });
+  }));
+
+  // User -> AI: stop a running reply (specific message or whole session)
+  socket.on("ai_abort", ({ sessionId, id }) => {
+    const userId = socket.data.userId;
+    if (!userId || !sessionId) return;
+    abortStreams(userId, sessionId, id);
   });
 
-  socket.on("disconnect", () => {
+  // Approve (optionally with edited arguments) or deny a paused tool call
+  socket.on("tool_approval", safe(async (payload) => {
     const userId = socket.data.userId;
-    if (userId) {
-      if (onlineUsers.get(userId) === socket.id) {
-        onlineUsers.delete(userId);
-      }
+    const { sessionId, toolCallId, decision } = payload || {};
+    if (!userId || !sessionId || !toolCallId) return;
+    if (decision !== "approve" && decision !== "deny") return;
+    const answer: ApprovalAnswer = {
+      decision,
+      input: payload.input,
+      reason: typeof payload.reason === "string" ? payload.reason : undefined,
+    };
+    const refused = await answerApproval(
+      userId,
+      sessionId,
+      toolCallId,
+      answer,
+      socket.id
+    );
+    if (refused) {
+      socket.emit("ai_tool_approval_result", {
+        sessionId,
+        toolCallId,
+        name: "",
+        status: "pending",
+        error: refused,
+      });
     }
+  }));
+
+  socket.on("ai_queue_cancel", ({ sessionId, id }) => {
+    const userId = socket.data.userId;
+    if (!userId || !sessionId || !id) return;
+    cancelQueued(userId, sessionId, id);
   });
 });
 
@@ -0,0 +1,55 @@
+import "dotenv/config";
+import fs from "fs";
+import path from "path";
+import { Message, SessionItem, UserAccount } from "../types";
+import { DATA_DIR } from "./index";
+import { createLibsqlStores } from "./libsql";
+
+// One-shot migration: copy data/messages.json, sessions.json and users.json into
+// the libsql database. Safe to re-run; rows are upserted by id.
+//   npm run store:import [-- <libsql url>]
+function readJson<T>(file: string, fallback: T): T {
+  if (!fs.existsSync(file)) return fallback;
+  return JSON.parse(fs.readFileSync(file, "utf8")) as T;
+}
+
+async function main() {
+  const url =
+    process.argv[2] ||
+    process.env.LIBSQL_URL ||
+    `file:${path.join(DATA_DIR, "chat.db")}`;
+  const stores = createLibsqlStores(url, process.env.LIBSQL_AUTH_TOKEN);
+
+  const { sessions } = readJson<{ sessions: SessionItem[] }>(
+    path.join(DATA_DIR, "sessions.json"),
+    { sessions: [] }
+  );
+  const { messages } = readJson<{ messages: Message[] }>(
+    path.join(DATA_DIR, "messages.json"),
+    { messages: [] }
+  );
+
+  const { users } = readJson<{ users: UserAccount[] }>(
+    path.join(DATA_DIR, "users.json"),
+    { users: [] }
+  );
+
+  for (const u of users) {
+    if (!(await stores.users.getByUsername(u.username))) {
+      await stores.users.create(u);
+    }
+  }
+  for (const s of sessions) await stores.sessions.upsert(s);
+  for (const m of messages) await stores.messages.add(m);
+
+  // eslint-disable-next-line no-console
+  console.log(
+    `Imported ${users.length} users, ${sessions.length} sessions and ${messages.length} messages into ${url}`
+  );
+}
+
+main().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error("Import failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,69 @@
+import fs from "fs";
+import path from "path";
+import { Message, SearchResult, SessionItem, UserAccount } from "../types";
+import { createJsonStores } from "./json";
+import { createLibsqlStores } from "./libsql";
+
+// ---------- Pluggable persistence ----------
+export interface MessageStore {
+  add(msg: Message): Promise<void>;
+  listBySession(userId: string, sessionId: string): Promise<Message[]>; // oldest first
+  listUndelivered(userId: string): Promise<Message[]>;
+  markDelivered(ids: string[]): Promise<void>;
+  deleteBySession(userId: string, sessionId: string): Promise<void>;
+}
+
+export interface SessionStore {
+  get(id: string): Promise<SessionItem | undefined>;
+  listByUser(userId: string): Promise<SessionItem[]>; // most recently updated first
+  upsert(item: SessionItem): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface UserStore {
+  getByUsername(username: string): Promise<UserAccount | undefined>;
+  create(user: UserAccount): Promise<void>;
+}
+
+// Ranked full-text search over a user's messages, tool calls and session
+// titles; kept up to date by the message and session stores' writes
+export interface SearchStore {
+  search(userId: string, query: string, limit: number): Promise<SearchResult[]>; // best first
+}
+
+// Claims shared by every instance, e.g. on the session streaming a reply. A
+// claim lapses `ttlMs` after it was taken unless its owner takes it again,
+// so an instance that dies does not hold anything for good.
+export interface LockStore {
+  acquire(key: string, owner: string, ttlMs: number): Promise<boolean>; // true if now held by `owner`
+  release(key: string, owner: string): Promise<void>;
+}
+
+export interface Stores {
+  messages: MessageStore;
+  sessions: SessionStore;
+  users: UserStore;
+  search: SearchStore;
+  locks: LockStore;
+}
+
+export const DATA_DIR = path.resolve(process.cwd(), "data");
+
+/**
+ * Pick the backend from env: STORE_BACKEND=json (default, data/*.json) or
+ * STORE_BACKEND=libsql (LIBSQL_URL, defaults to data/chat.db).
+ */
+export function createStores(): Stores {
+  const backend = process.env.STORE_BACKEND || "json";
+  if (backend === "libsql") {
+    // SQLite creates the default file but not its directory
+    if (!process.env.LIBSQL_URL) fs.mkdirSync(DATA_DIR, { recursive: true });
+    const url =
+      process.env.LIBSQL_URL || `file:${path.join(DATA_DIR, "chat.db")}`;
+    return createLibsqlStores(url, process.env.LIBSQL_AUTH_TOKEN);
+  }
+  if (backend !== "json") {
+    throw new Error(`Unknown STORE_BACKEND: ${backend}`);
+  }
+  return createJsonStores(DATA_DIR);
+}
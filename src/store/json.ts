@@ -0,0 +1,198 @@
+import fs from "fs";
+import path from "path";
+import { Message, SessionItem, UserAccount } from "../types";
+import {
+  createMemoryIndex,
+  groupResults,
+  messageDoc,
+  queryTerms,
+  SEARCH_CANDIDATES,
+  sessionDoc,
+  sessionDocId,
+} from "../search";
+import type {
+  LockStore,
+  MessageStore,
+  SearchStore,
+  SessionStore,
+  Stores,
+  UserStore,
+} from "./index";
+
+// ---------- File-based store (data/messages.json, data/sessions.json, data/users.json) ----------
+// Files are read once and kept in memory; writes go through a per-file
+// queue and land via tmp file + rename, so concurrent events can't
+// interleave partial writes.
+function createJsonFile<T>(file: string, empty: T) {
+  let cache: T | null = null;
+  let pending: Promise<void> = Promise.resolve();
+
+  function load(): T {
+    if (cache) return cache;
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    if (!fs.existsSync(file)) {
+      fs.writeFileSync(file, JSON.stringify(empty, null, 2));
+    }
+    cache = JSON.parse(fs.readFileSync(file, "utf8")) as T;
+    return cache;
+  }
+
+  function save(): Promise<void> {
+    const snapshot = JSON.stringify(load(), null, 2);
+    const tmp = `${file}.tmp`;
+    pending = pending
+      .then(async () => {
+        await fs.promises.writeFile(tmp, snapshot);
+        await fs.promises.rename(tmp, file);
+      })
+      .catch((err) => {
+        // eslint-disable-next-line no-console
+        console.error(`Failed to write ${file}:`, err);
+      });
+    return pending;
+  }
+
+  return { load, save };
+}
+
+export function createJsonStores(dataDir: string): Stores {
+  const msgFile = createJsonFile<{ messages: Message[] }>(
+    path.join(dataDir, "messages.json"),
+    { messages: [] }
+  );
+  const sessFile = createJsonFile<{ sessions: SessionItem[] }>(
+    path.join(dataDir, "sessions.json"),
+    { sessions: [] }
+  );
+  const userFile = createJsonFile<{ users: UserAccount[] }>(
+    path.join(dataDir, "users.json"),
+    { users: [] }
+  );
+
+  // Search index lives in memory, built from the files on first use
+  let searchIndex: ReturnType<typeof createMemoryIndex> | null = null;
+  function index() {
+    if (searchIndex) return searchIndex;
+    searchIndex = createMemoryIndex();
+    for (const m of msgFile.load().messages) {
+      const doc = messageDoc(m);
+      if (doc) searchIndex.put(doc);
+    }
+    for (const s of sessFile.load().sessions) searchIndex.put(sessionDoc(s));
+    return searchIndex;
+  }
+
+  const messages: MessageStore = {
+    async add(msg) {
+      msgFile.load().messages.push(msg);
+      const doc = messageDoc(msg);
+      if (doc && searchIndex) searchIndex.put(doc);
+      await msgFile.save();
+    },
+    async listBySession(userId, sessionId) {
+      return msgFile
+        .load()
+        .messages.filter((m) => m.to === userId && m.sessionId === sessionId)
+        .sort((a, b) => a.timestamp - b.timestamp);
+    },
+    async listUndelivered(userId) {
+      return msgFile
+        .load()
+        .messages.filter((m) => m.to === userId && !m.delivered);
+    },
+    async markDelivered(ids) {
+      if (!ids || ids.length === 0) return;
+      const data = msgFile.load();
+      let changed = false;
+      const now = Date.now();
+      data.messages = data.messages.map((m) => {
+        if (ids.includes(m.id) && !m.delivered) {
+          changed = true;
+          return { ...m, delivered: true, deliveredAt: now };
+        }
+        return m;
+      });
+      if (changed) await msgFile.save();
+    },
+    async deleteBySession(userId, sessionId) {
+      const data = msgFile.load();
+      data.messages = data.messages.filter(
+        (m) => !(m.to === userId && m.sessionId === sessionId)
+      );
+      searchIndex?.removeSession(sessionId);
+      await msgFile.save();
+    },
+  };
+
+  const sessions: SessionStore = {
+    async get(id) {
+      return sessFile.load().sessions.find((s) => s.id === id);
+    },
+    async listByUser(userId) {
+      return sessFile
+        .load()
+        .sessions.filter((s) => s.userId === userId)
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+    },
+    async upsert(item) {
+      const data = sessFile.load();
+      const idx = data.sessions.findIndex((s) => s.id === item.id);
+      if (idx >= 0) {
+        data.sessions[idx] = item;
+      } else {
+        data.sessions.push(item);
+      }
+      searchIndex?.put(sessionDoc(item));
+      await sessFile.save();
+    },
+    async delete(id) {
+      const data = sessFile.load();
+      data.sessions = data.sessions.filter((s) => s.id !== id);
+      searchIndex?.remove(sessionDocId(id));
+      await sessFile.save();
+    },
+  };
+
+  const users: UserStore = {
+    async getByUsername(username) {
+      return userFile.load().users.find((u) => u.username === username);
+    },
+    async create(user) {
+      userFile.load().users.push(user);
+      await userFile.save();
+    },
+  };
+
+  const search: SearchStore = {
+    async search(userId, query, limit) {
+      const terms = queryTerms(query);
+      if (terms.length === 0) return [];
+      const titles = new Map(
+        sessFile.load().sessions.map((s) => [s.id, s.title] as const)
+      );
+      return groupResults(
+        index().search(userId, terms, SEARCH_CANDIDATES),
+        terms,
+        (id) => titles.get(id),
+        limit
+      );
+    },
+  };
+
+  // One process uses the files, so its claims can stay in memory
+  const claims = new Map<string, { owner: string; expiresAt: number }>();
+  const locks: LockStore = {
+    async acquire(key, owner, ttlMs) {
+      const now = Date.now();
+      const claim = claims.get(key);
+      if (claim && claim.owner !== owner && claim.expiresAt > now) return false;
+      claims.set(key, { owner, expiresAt: now + ttlMs });
+      return true;
+    },
+    async release(key, owner) {
+      if (claims.get(key)?.owner === owner) claims.delete(key);
+    },
+  };
+
+  return { messages, sessions, users, search, locks };
+}
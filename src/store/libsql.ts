@@ -0,0 +1,286 @@
+import { createClient, InStatement, InValue } from "@libsql/client";
+import { Message, SessionItem, UserAccount } from "../types";
+import {
+  groupResults,
+  indexTerms,
+  messageDoc,
+  queryTerms,
+  SEARCH_CANDIDATES,
+  SearchDoc,
+  sessionDoc,
+  sessionDocId,
+} from "../search";
+import type {
+  LockStore,
+  MessageStore,
+  SearchStore,
+  SessionStore,
+  Stores,
+  UserStore,
+} from "./index";
+
+// ---------- libsql / SQLite store ----------
+// Queried fields get their own indexed columns; the full record is kept as
+// JSON in `data` so new optional fields don't need a migration.
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS messages (
+    id TEXT PRIMARY KEY,
+    to_user TEXT NOT NULL,
+    session_id TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    delivered INTEGER NOT NULL DEFAULT 0,
+    data TEXT NOT NULL
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_messages_session
+    ON messages (to_user, session_id, timestamp)`,
+  `CREATE INDEX IF NOT EXISTS idx_messages_undelivered
+    ON messages (to_user, delivered)`,
+  `CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    updated_at INTEGER NOT NULL,
+    data TEXT NOT NULL
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_sessions_user
+    ON sessions (user_id, updated_at)`,
+  `CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    username TEXT NOT NULL UNIQUE,
+    data TEXT NOT NULL
+  )`,
+  // Full-text search: search_docs holds the SearchDoc, search_fts its terms
+  // (pre-split by src/search.ts) under the same rowid, ranked with bm25()
+  `CREATE TABLE IF NOT EXISTS search_docs (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    session_id TEXT NOT NULL,
+    data TEXT NOT NULL
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_search_docs_session
+    ON search_docs (session_id)`,
+  `CREATE VIRTUAL TABLE IF NOT EXISTS search_fts USING fts5(terms)`,
+  `CREATE TABLE IF NOT EXISTS locks (
+    key TEXT PRIMARY KEY,
+    owner TEXT NOT NULL,
+    expires_at INTEGER NOT NULL
+  )`,
+];
+
+function removeDocSql(where: string, args: InValue[]): InStatement[] {
+  return [
+    {
+      sql: `DELETE FROM search_fts WHERE rowid IN
+            (SELECT rowid FROM search_docs WHERE ${where})`,
+      args,
+    },
+    { sql: `DELETE FROM search_docs WHERE ${where}`, args },
+  ];
+}
+
+function putDocSql(doc: SearchDoc): InStatement[] {
+  return [
+    ...removeDocSql("id = ?", [doc.id]),
+    {
+      sql: `INSERT INTO search_docs (id, user_id, session_id, data)
+            VALUES (?, ?, ?, ?)`,
+      args: [doc.id, doc.userId, doc.sessionId, JSON.stringify(doc)],
+    },
+    {
+      sql: `INSERT INTO search_fts (rowid, terms) VALUES (last_insert_rowid(), ?)`,
+      args: [indexTerms(doc.text).join(" ")],
+    },
+  ];
+}
+
+// FTS5 query requiring every term; quotes keep terms literal
+function matchExpr(terms: string[]): string {
+  return terms.map((t) => `"${t.replace(/"/g, '""')}"`).join(" ");
+}
+
+function parseRows<T>(rows: Record<string, unknown>[]): T[] {
+  return rows.map((r) => JSON.parse(String(r.data)) as T);
+}
+
+export function createLibsqlStores(url: string, authToken?: string): Stores {
+  const client = createClient({ url, authToken });
+  // Instances sharing a local file wait for each other's writes
+  const opened = url.startsWith("file:")
+    ? client.execute("PRAGMA busy_timeout = 5000")
+    : Promise.resolve();
+  const ready = opened
+    .then(() => client.batch(SCHEMA, "write"))
+    .then(backfillSearch);
+
+  // Index existing records the first time search tables are created
+  async function backfillSearch(): Promise<void> {
+    const count = await client.execute(`SELECT COUNT(*) AS n FROM search_docs`);
+    if (Number(count.rows[0].n) > 0) return;
+    const stmts: InStatement[] = [];
+    const msgs = await client.execute(`SELECT data FROM messages`);
+    for (const m of parseRows<Message>(msgs.rows)) {
+      const doc = messageDoc(m);
+      if (doc) stmts.push(...putDocSql(doc));
+    }
+    const sess = await client.execute(`SELECT data FROM sessions`);
+    for (const s of parseRows<SessionItem>(sess.rows)) {
+      stmts.push(...putDocSql(sessionDoc(s)));
+    }
+    if (stmts.length > 0) await client.batch(stmts, "write");
+  }
+
+  async function query(sql: string, args: InValue[] = []) {
+    await ready;
+    return client.execute({ sql, args });
+  }
+
+  // A record write and its index update commit together
+  async function write(stmts: InStatement[]) {
+    await ready;
+    await client.batch(stmts, "write");
+  }
+
+  const messages: MessageStore = {
+    async add(msg) {
+      const doc = messageDoc(msg);
+      await write([
+        {
+          sql: `INSERT OR REPLACE INTO messages (id, to_user, session_id, timestamp, delivered, data)
+                VALUES (?, ?, ?, ?, ?, ?)`,
+          args: [
+            msg.id,
+            msg.to,
+            msg.sessionId,
+            msg.timestamp,
+            msg.delivered ? 1 : 0,
+            JSON.stringify(msg),
+          ],
+        },
+        ...(doc ? putDocSql(doc) : []),
+      ]);
+    },
+    async listBySession(userId, sessionId) {
+      const rs = await query(
+        `SELECT data FROM messages WHERE to_user = ? AND session_id = ?
+         ORDER BY timestamp ASC`,
+        [userId, sessionId]
+      );
+      return parseRows<Message>(rs.rows);
+    },
+    async listUndelivered(userId) {
+      const rs = await query(
+        `SELECT data FROM messages WHERE to_user = ? AND delivered = 0
+         ORDER BY timestamp ASC`,
+        [userId]
+      );
+      return parseRows<Message>(rs.rows);
+    },
+    async markDelivered(ids) {
+      if (!ids || ids.length === 0) return;
+      const placeholders = ids.map(() => "?").join(", ");
+      await query(
+        `UPDATE messages
+         SET delivered = 1,
+             data = json_set(data, '$.delivered', json('true'), '$.deliveredAt', ?)
+         WHERE delivered = 0 AND id IN (${placeholders})`,
+        [Date.now(), ...ids]
+      );
+    },
+    async deleteBySession(userId, sessionId) {
+      await write([
+        {
+          sql: `DELETE FROM messages WHERE to_user = ? AND session_id = ?`,
+          args: [userId, sessionId],
+        },
+        ...removeDocSql("user_id = ? AND session_id = ?", [userId, sessionId]),
+      ]);
+    },
+  };
+
+  const sessions: SessionStore = {
+    async get(id) {
+      const rs = await query(`SELECT data FROM sessions WHERE id = ?`, [id]);
+      return parseRows<SessionItem>(rs.rows)[0];
+    },
+    async listByUser(userId) {
+      const rs = await query(
+        `SELECT data FROM sessions WHERE user_id = ? ORDER BY updated_at DESC`,
+        [userId]
+      );
+      return parseRows<SessionItem>(rs.rows);
+    },
+    async upsert(item) {
+      await write([
+        {
+          sql: `INSERT OR REPLACE INTO sessions (id, user_id, updated_at, data)
+                VALUES (?, ?, ?, ?)`,
+          args: [item.id, item.userId, item.updatedAt, JSON.stringify(item)],
+        },
+        ...putDocSql(sessionDoc(item)),
+      ]);
+    },
+    async delete(id) {
+      await write([
+        { sql: `DELETE FROM sessions WHERE id = ?`, args: [id] },
+        ...removeDocSql("id = ?", [sessionDocId(id)]),
+      ]);
+    },
+  };
+
+  const users: UserStore = {
+    async getByUsername(username) {
+      const rs = await query(`SELECT data FROM users WHERE username = ?`, [
+        username,
+      ]);
+      return parseRows<UserAccount>(rs.rows)[0];
+    },
+    async create(user) {
+      await query(`INSERT INTO users (id, username, data) VALUES (?, ?, ?)`, [
+        user.id,
+        user.username,
+        JSON.stringify(user),
+      ]);
+    },
+  };
+
+  const search: SearchStore = {
+    async search(userId, text, limit) {
+      const terms = queryTerms(text);
+      if (terms.length === 0) return [];
+      const rs = await query(
+        `SELECT d.data, bm25(search_fts) AS rank
+         FROM search_fts JOIN search_docs d ON d.rowid = search_fts.rowid
+         WHERE search_fts MATCH ? AND d.user_id = ?
+         ORDER BY rank LIMIT ?`,
+        [matchExpr(terms), userId, SEARCH_CANDIDATES]
+      );
+      const ranked = rs.rows.map((r) => ({
+        doc: JSON.parse(String(r.data)) as SearchDoc,
+        score: -Number(r.rank), // bm25() is lower-is-better
+      }));
+      const titles = new Map(
+        (await sessions.listByUser(userId)).map((s) => [s.id, s.title] as const)
+      );
+      return groupResults(ranked, terms, (id) => titles.get(id), limit);
+    },
+  };
+
+  const locks: LockStore = {
+    async acquire(key, owner, ttlMs) {
+      const now = Date.now();
+      // Taken over only once expired; the owner's own claim is extended
+      const rs = await query(
+        `INSERT INTO locks (key, owner, expires_at) VALUES (?, ?, ?)
+         ON CONFLICT (key) DO UPDATE
+           SET owner = excluded.owner, expires_at = excluded.expires_at
+           WHERE locks.owner = excluded.owner OR locks.expires_at <= ?`,
+        [key, owner, now + ttlMs, now]
+      );
+      return rs.rowsAffected > 0;
+    },
+    async release(key, owner) {
+      await query(`DELETE FROM locks WHERE key = ? AND owner = ?`, [key, owner]);
+    },
+  };
+
+  return { messages, sessions, users, search, locks };
+}
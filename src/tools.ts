@@ -0,0 +1,109 @@
+import fs from "fs";
+import path from "path";
+import type { Tool } from "@voltagent/core";
+import { ToolInfo } from "./types";
+
+// ---------- Tool plugins ----------
+// Every module in the plugins directory default-exports one tool made with
+// `createTool` (zod `parameters` + `execute`). They are loaded once at
+// startup; sessions pick a subset by name (SessionItem.tools). A module that
+// also exports `requiresApproval = true` (or is named in
+// TOOL_APPROVAL_REQUIRED) only runs once the user approves each call.
+export const TOOL_PLUGINS_DIR = process.env.TOOL_PLUGINS_DIR
+  ? path.resolve(process.env.TOOL_PLUGINS_DIR)
+  : path.join(__dirname, "plugins");
+
+// Comma-separated tool names that need approval in addition to the plugins' own flag
+const APPROVAL_REQUIRED = new Set(
+  (process.env.TOOL_APPROVAL_REQUIRED || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean)
+);
+
+export interface ToolRegistry {
+  list(): ToolInfo[];
+  has(name: string): boolean;
+  requiresApproval(name: string): boolean;
+  /** Tools a session may use: the named ones, or all when unset. */
+  resolve(names?: string[]): Tool<any, any>[];
+}
+
+// Abortable delay so a stopped stream doesn't wait out a pending tool
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+  });
+}
+
+function isTool(value: unknown): value is Tool<any, any> {
+  const t = value as Tool<any, any> | undefined;
+  return (
+    !!t &&
+    typeof t.name === "string" &&
+    typeof t.description === "string" &&
+    !!t.parameters &&
+    typeof t.execute === "function"
+  );
+}
+
+export function loadToolRegistry(dir: string = TOOL_PLUGINS_DIR): ToolRegistry {
+  const tools = new Map<string, Tool<any, any>>();
+  const approval = new Set(APPROVAL_REQUIRED);
+  const files = fs.existsSync(dir) ? fs.readdirSync(dir).sort() : [];
+  for (const file of files) {
+    // .ts under tsx in development, .js once built
+    if (!/\.(js|ts)$/.test(file) || file.endsWith(".d.ts")) continue;
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const mod = require(path.join(dir, file));
+      const tool = mod.default ?? mod;
+      if (!isTool(tool)) {
+        // eslint-disable-next-line no-console
+        console.warn(`Tool plugin ${file} does not export a tool; skipped.`);
+        continue;
+      }
+      if (tools.has(tool.name)) {
+        // eslint-disable-next-line no-console
+        console.warn(`Tool plugin ${file}: duplicate tool "${tool.name}"; skipped.`);
+        continue;
+      }
+      tools.set(tool.name, tool);
+      if (mod.requiresApproval === true) approval.add(tool.name);
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(`Failed to load tool plugin ${file}:`, err);
+    }
+  }
+  // eslint-disable-next-line no-console
+  console.log(`Loaded ${tools.size} tool(s) from ${dir}`);
+
+  return {
+    list() {
+      return [...tools.values()].map((t) => ({
+        name: t.name,
+        description: t.description,
+        requiresApproval: approval.has(t.name),
+      }));
+    },
+    has(name) {
+      return tools.has(name);
+    },
+    requiresApproval(name) {
+      return approval.has(name);
+    },
+    resolve(names) {
+      if (!names) return [...tools.values()];
+      return names.flatMap((n) => tools.get(n) ?? []);
+    },
+  };
+}
@@ -0,0 +1,370 @@
+import crypto from "crypto";
+import type { MessageStore, SessionStore } from "./store";
+import { ApprovalStatus, Message, SessionItem } from "./types";
+import { getBranch } from "./branches";
+
+// ---------- Session export / import ----------
+// JSON and JSONL are lossless (every branch, tool trace and field); Markdown
+// is for reading and shows the active branch with tool calls inline.
+
+export type ExportFormat = "md" | "json" | "jsonl";
+
+export interface SessionExport {
+  session: SessionItem;
+  messages: Message[]; // oldest first
+}
+
+// JSON export envelope; a bare SessionExport or an array of them also imports
+interface ExportFile {
+  version: 1;
+  exportedAt: number;
+  sessions: SessionExport[];
+}
+
+// One record per JSONL line; a session line precedes its messages
+type ExportLine =
+  | { type: "session"; session: SessionItem }
+  | { type: "message"; message: Message };
+
+export const EXPORT_MIME: Record<ExportFormat, string> = {
+  md: "text/markdown; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  jsonl: "application/x-ndjson; charset=utf-8",
+};
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return (
+    typeof value === "string" &&
+    Object.prototype.hasOwnProperty.call(EXPORT_MIME, value)
+  );
+}
+
+/** The user's sessions (all, or just `sessionIds`) with their messages. */
+export async function collectSessions(
+  sessions: SessionStore,
+  messages: MessageStore,
+  userId: string,
+  sessionIds?: string[]
+): Promise<SessionExport[]> {
+  const owned = await sessions.listByUser(userId);
+  const picked = sessionIds
+    ? owned.filter((s) => sessionIds.includes(s.id))
+    : owned;
+  const result: SessionExport[] = [];
+  for (const session of picked) {
+    result.push({
+      session,
+      messages: await messages.listBySession(userId, session.id),
+    });
+  }
+  return result;
+}
+
+const APPROVAL_LABELS: Record<ApprovalStatus, string> = {
+  pending: "等待批准",
+  approved: "已批准",
+  edited: "修改参数后批准",
+  denied: "已拒绝",
+  expired: "审批已过期",
+  cancelled: "审批已取消",
+};
+
+function fence(value: unknown): string {
+  const json = JSON.stringify(value, null, 2) ?? "";
+  return ["```json", json, "```"].join("\n");
+}
+
+// A reply's text with its thinking (collapsed) before and sources after
+function replyDetails(m: Message, text: string): string[] {
+  const out: string[] = [];
+  if (m.reasoning) {
+    out.push("", "<details><summary>思考过程</summary>", "", m.reasoning, "", "</details>");
+  }
+  if (text) out.push("", text);
+  if (m.sources && m.sources.length > 0) {
+    out.push("", "来源：");
+    for (const s of m.sources) {
+      const label = s.title || s.filename || s.url || s.id;
+      out.push(s.url ? `- [${label}](${s.url})` : `- ${label}`);
+    }
+  }
+  return out;
+}
+
+function sessionToMarkdown({ session, messages }: SessionExport): string {
+  const out = [
+    `# ${session.title}`,
+    "",
+    `- 会话 ID：\`${session.id}\``,
+    `- 创建时间：${new Date(session.createdAt).toISOString()}`,
+    `- 更新时间：${new Date(session.updatedAt).toISOString()}`,
+  ];
+  if (session.personaId) out.push(`- 助手：\`${session.personaId}\``);
+  const branch = getBranch(messages, session.activeLeafId);
+  if (Object.keys(branch.siblings).length > 0) {
+    out.push("- 仅导出当前分支；完整分支请使用 JSON/JSONL");
+  }
+  for (const m of branch.messages) {
+    const body = m.message;
+    if (body.type === "text") {
+      const who = m.role === "user" ? "用户" : "助理";
+      const aborted = m.status === "aborted" ? "（已停止）" : "";
+      out.push("", `## ${who}${aborted}`);
+      out.push(...replyDetails(m, body.content));
+    } else if (body.type === "tool_use") {
+      out.push("", `> 🔧 调用工具 \`${body.content}\``);
+      if (body.input !== undefined) out.push("", fence(body.input));
+    } else if (body.type === "tool_result") {
+      const took =
+        body.startedAt && body.endedAt
+          ? ` · ${((body.endedAt - body.startedAt) / 1000).toFixed(1)}s`
+          : "";
+      if (body.error) {
+        out.push("", `> ❌ 工具 \`${body.content}\` 出错${took}：${body.error}`);
+      } else {
+        out.push("", `> ✅ 工具 \`${body.content}\` 返回${took}`);
+        if (body.output !== undefined) out.push("", fence(body.output));
+      }
+    } else if (body.type === "tool_approval") {
+      out.push("", `> ✋ 工具 \`${body.content}\` ${APPROVAL_LABELS[body.status]}`);
+      if (body.status === "edited") out.push("", fence(body.input));
+      if (body.reason) out.push("", `> 理由：${body.reason}`);
+    } else if (body.type === "error") {
+      out.push("", "## 助理（出错）");
+      out.push(...replyDetails(m, body.text ?? ""));
+      out.push("", `> ⚠️ ${body.content}`);
+    } else if (body.type === "attachment") {
+      const kb = Math.max(1, Math.round(body.size / 1024));
+      out.push("", `> 📎 附件 \`${body.content}\`（${body.mimeType}，${kb} KB）`);
+    }
+  }
+  return out.join("\n");
+}
+
+export function formatExport(
+  exports: SessionExport[],
+  format: ExportFormat
+): string {
+  if (format === "md") {
+    return exports.map(sessionToMarkdown).join("\n\n---\n\n") + "\n";
+  }
+  if (format === "json") {
+    const file: ExportFile = {
+      version: 1,
+      exportedAt: Date.now(),
+      sessions: exports,
+    };
+    return JSON.stringify(file, null, 2);
+  }
+  const lines: ExportLine[] = [];
+  for (const e of exports) {
+    lines.push({ type: "session", session: e.session });
+    for (const message of e.messages) lines.push({ type: "message", message });
+  }
+  return lines.map((l) => JSON.stringify(l)).join("\n") + "\n";
+}
+
+// Imported records are stored as they are and later read by getBranch and
+// the client, so anything they rely on is checked first. Each check returns
+// what is wrong, or null.
+const ROLES = new Set(["user", "ai", "system"]);
+const STATUSES = new Set(["complete", "aborted"]);
+
+const isText = (v: unknown): v is string => typeof v === "string";
+const isTime = (v: unknown): v is number =>
+  typeof v === "number" && Number.isFinite(v);
+const isId = (v: unknown): v is string => isText(v) && v.length > 0;
+
+function bodyProblem(body: any): string | null {
+  if (!body || typeof body !== "object") return "message body missing";
+  if (!isText(body.content)) return "message.content must be a string";
+  switch (body.type) {
+    case "text":
+      return null;
+    case "tool_use":
+    case "tool_result":
+      return body.toolCallId === undefined || isText(body.toolCallId)
+        ? null
+        : "message.toolCallId must be a string";
+    case "tool_approval":
+      if (!isId(body.toolCallId)) return "message.toolCallId missing";
+      return Object.prototype.hasOwnProperty.call(APPROVAL_LABELS, body.status)
+        ? null
+        : "unknown approval status";
+    case "attachment":
+      return isId(body.attachmentId) &&
+        isText(body.mimeType) &&
+        typeof body.size === "number"
+        ? null
+        : "attachment needs attachmentId, mimeType and size";
+    case "error":
+      return isText(body.kind) && typeof body.retryable === "boolean"
+        ? null
+        : "error needs kind and retryable";
+    default:
+      return `unknown message type ${JSON.stringify(body.type)}`;
+  }
+}
+
+function messageProblem(m: any): string | null {
+  if (!m || typeof m !== "object") return "not a message";
+  if (!isId(m.id)) return "message id missing";
+  if (!isTime(m.timestamp)) return "timestamp must be a number";
+  if (!ROLES.has(m.role)) return `unknown role ${JSON.stringify(m.role)}`;
+  if (m.status !== undefined && !STATUSES.has(m.status)) {
+    return `unknown status ${JSON.stringify(m.status)}`;
+  }
+  if (m.parentId !== undefined && m.parentId !== null && !isId(m.parentId)) {
+    return "parentId must be a message id or null";
+  }
+  if (m.replyId !== undefined && !isId(m.replyId)) {
+    return "replyId must be a message id";
+  }
+  return bodyProblem(m.message);
+}
+
+function sessionProblem(s: any): string | null {
+  if (!s || typeof s !== "object" || !isId(s.id)) return "session id missing";
+  if (!isText(s.title)) return "session title must be a string";
+  if (!isTime(s.createdAt) || !isTime(s.updatedAt)) {
+    return "session createdAt/updatedAt must be numbers";
+  }
+  // Read on every reply: a malformed list would break tool resolution
+  if (
+    s.tools !== undefined &&
+    !(Array.isArray(s.tools) && s.tools.every(isText))
+  ) {
+    return "session tools must be an array of tool names";
+  }
+  if (s.personaId !== undefined && !isText(s.personaId)) {
+    return "session personaId must be a string";
+  }
+  if (
+    s.activeLeafId !== undefined &&
+    s.activeLeafId !== null &&
+    !isId(s.activeLeafId)
+  ) {
+    return "session activeLeafId must be a message id";
+  }
+  return null;
+}
+
+function exportProblem(value: any): string | null {
+  if (!value || typeof value !== "object") return "not a session export";
+  const session = sessionProblem(value.session);
+  if (session) return session;
+  if (!Array.isArray(value.messages)) return "messages must be an array";
+  for (let i = 0; i < value.messages.length; i++) {
+    const problem = messageProblem(value.messages[i]);
+    if (problem) return `messages[${i}]: ${problem}`;
+  }
+  return null;
+}
+
+/**
+ * Accepts a JSON export (envelope, single session or array), JSONL text, or
+ * an already-parsed JSON body. Throws with a readable message otherwise.
+ */
+export function parseImport(input: unknown): SessionExport[] {
+  let value = input;
+  if (typeof input === "string") {
+    try {
+      value = JSON.parse(input);
+    } catch {
+      return parseJsonl(input);
+    }
+  }
+  const list = Array.isArray(value)
+    ? value
+    : Array.isArray((value as ExportFile)?.sessions)
+      ? (value as ExportFile).sessions
+      : [value];
+  list.forEach((e, i) => {
+    const problem = exportProblem(e);
+    if (problem) throw new Error(`sessions[${i}]: ${problem}`);
+  });
+  return list;
+}
+
+function parseJsonl(text: string): SessionExport[] {
+  const result: SessionExport[] = [];
+  text.split("\n").forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line) return;
+    let record: ExportLine;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      throw new Error(`line ${i + 1}: invalid JSON`);
+    }
+    const problem =
+      record?.type === "session"
+        ? sessionProblem(record.session)
+        : record?.type === "message"
+          ? messageProblem(record.message)
+          : "unknown record";
+    if (problem) throw new Error(`line ${i + 1}: ${problem}`);
+    if (record.type === "session") {
+      result.push({ session: record.session, messages: [] });
+    } else {
+      const owner = result.find(
+        (e) => e.session.id === record.message.sessionId
+      );
+      if (!owner) throw new Error(`line ${i + 1}: message before its session`);
+      owner.messages.push(record.message);
+    }
+  });
+  if (result.length === 0) throw new Error("no sessions found");
+  return result;
+}
+
+/**
+ * Recreate sessions under `userId` with fresh session and message ids, so
+ * re-importing or importing another user's export never collides. Links
+ * (`parentId`, `replyId`, `activeLeafId`) are remapped to the new ids.
+ */
+export async function importSessions(
+  sessions: SessionStore,
+  messages: MessageStore,
+  userId: string,
+  exports: SessionExport[]
+): Promise<SessionItem[]> {
+  const created: SessionItem[] = [];
+  for (const { session, messages: msgs } of exports) {
+    const sessionId = crypto.randomUUID();
+    const ids = new Map<string, string>();
+    for (const m of msgs) ids.set(m.id, crypto.randomUUID());
+    const remap = (id: string | null | undefined) =>
+      id ? ids.get(id) ?? null : id;
+
+    // Known fields only, flags as booleans
+    const item: SessionItem = {
+      id: sessionId,
+      userId,
+      title: session.title,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+      pinned: session.pinned === true,
+      archived: session.archived === true,
+      activeLeafId: remap(session.activeLeafId) ?? undefined,
+      tools: session.tools,
+      personaId: session.personaId,
+    };
+    await sessions.upsert(item);
+    const sorted = [...msgs].sort((a, b) => a.timestamp - b.timestamp);
+    for (const m of sorted) {
+      const copy: Message = {
+        ...m,
+        id: ids.get(m.id)!,
+        to: userId,
+        sessionId,
+        delivered: true,
+      };
+      if (m.parentId !== undefined) copy.parentId = remap(m.parentId);
+      if (m.replyId !== undefined) copy.replyId = remap(m.replyId) ?? undefined;
+      await messages.add(copy);
+    }
+    created.push(item);
+  }
+  return created;
+}
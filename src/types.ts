@@ -1,17 +1,155 @@
+// Tool bodies keep the tool name in `content`; the trace fields are absent
+// on records written before they were introduced.
+export interface ToolUseBody {
+  type: 'tool_use';
+  content: string; // tool name
+  toolCallId?: string; // pairs a call with its result
+  input?: unknown; // JSON arguments
+  startedAt?: number;
+}
+
+export interface ToolResultBody {
+  type: 'tool_result';
+  content: string; // tool name
+  toolCallId?: string;
+  output?: unknown; // JSON result, when the tool succeeded
+  error?: string; // when the tool threw
+  startedAt?: number;
+  endedAt?: number;
+}
+
+// A tool call waiting for (or given) the user's approval. The request is
+// stored as 'pending'; the decision is a second record for the same call.
+export type ApprovalStatus =
+  | 'pending'
+  | 'approved'
+  | 'edited' // approved with changed arguments
+  | 'denied'
+  | 'expired' // no decision in time, or its reply was interrupted
+  | 'cancelled'; // the reply was stopped while waiting
+
+export interface ToolApprovalBody {
+  type: 'tool_approval';
+  content: string; // tool name
+  toolCallId: string;
+  input: unknown; // requested arguments, or those the tool ran with
+  status: ApprovalStatus;
+  reason?: string; // given with a denial
+}
+
+// A file sent with a user message: one record per file, pointing at that
+// message through `parentId`; the bytes are in the attachment store
+export interface AttachmentBody {
+  type: 'attachment';
+  content: string; // file name
+  attachmentId: string; // sha-256 of the content
+  mimeType: string;
+  size: number; // bytes
+}
+
+// An uploaded file, as returned by the upload and sent back with ai_send
+export interface AttachmentInfo {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+}
+
+export type AIErrorKind =
+  | 'auth' // missing or rejected API key
+  | 'rate_limit'
+  | 'timeout'
+  | 'tool' // a tool call the model made could not run
+  | 'network' // provider unreachable or failing (5xx)
+  | 'unknown';
+
+// A reply that failed, stored under the failed reply's id. Like tool
+// messages it hangs off the user message (parentId) and is not a node of the
+// conversation tree, so it drops out of the branch once a retry succeeds.
+export interface ErrorBody {
+  type: 'error';
+  content: string; // message for the user
+  kind: AIErrorKind;
+  retryable: boolean; // transient: trying again may well succeed
+  text?: string; // what streamed before the failure
+}
+
 export type MessageBody =
   | { type: 'text'; content: string }
-  | { type: 'tool_use'; content: string }
-  | { type: 'tool_result'; content: string };
+  | ToolUseBody
+  | ToolResultBody
+  | ToolApprovalBody
+  | AttachmentBody
+  | ErrorBody;
+
+// 'aborted' marks a partial AI reply stopped by the user; absent on older records
+export type MessageStatus = 'complete' | 'aborted';
+
+// A citation the model attached to its answer (web search, retrieved files)
+export interface SourceRef {
+  id: string;
+  kind: 'url' | 'document';
+  url?: string; // url sources
+  title?: string;
+  mediaType?: string; // document sources
+  filename?: string;
+}
+
+// What an AI reply (text or error record) cost and how long it took
+export interface MessageUsage {
+  model: string; // "<provider>:<model>"
+  // As reported by the provider; absent when it reported nothing (stopped
+  // or failed before the end)
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+  costUsd?: number; // absent for models without a price (see usage.ts)
+  firstTokenMs?: number; // from the start of the reply to its first text
+  durationMs: number;
+  steps?: number; // model calls: one, plus one per round of tool results
+  tools: ToolTiming[];
+}
+
+export interface ToolTiming {
+  toolCallId: string;
+  name: string;
+  durationMs: number; // includes any wait for approval
+  error?: boolean;
+}
+
+// Sum of the usage of a set of replies
+export interface UsageTotals {
+  replies: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  avgFirstTokenMs: number | null;
+  avgDurationMs: number | null;
+  toolCalls: number;
+  toolMs: number;
+}
 
 export interface Message {
   id: string;
   to: string; // user id
   sessionId: string; // chat session id
   timestamp: number;
-  delivered: boolean; // delivered to UI
+  delivered: boolean; // acknowledged by a client (or sent on an HTTP stream)
   deliveredAt?: number;
   role: 'user' | 'ai' | 'system';
   message: MessageBody; // normalized message content
+  status?: MessageStatus;
+  // Conversation tree: user/AI text points at the message it follows (null
+  // for the first one); tool messages point at the user message they answer,
+  // attachments at the user message they were sent with.
+  // Absent on records from before branching, which are read as a chain.
+  parentId?: string | null;
+  replyId?: string; // tool messages: the AI reply they belong to
+  // AI replies (text and error records)
+  usage?: MessageUsage;
+  reasoning?: string; // the model's thinking, shown collapsed; not sent back to it
+  sources?: SourceRef[];
 }
 
 export interface SessionItem {
@@ -20,27 +158,327 @@ export interface SessionItem {
   title: string;
   createdAt: number;
   updatedAt: number;
+  pinned?: boolean;
+  archived?: boolean;
+  activeLeafId?: string; // last message of the branch being shown
+  tools?: string[]; // tool names the agent may use; absent = the persona's
+  personaId?: string; // assistant persona; absent = the default one
+}
+
+// An assistant persona as listed to clients (instructions stay server-side)
+export interface PersonaInfo {
+  id: string;
+  name: string;
+  description?: string;
+  model?: string; // AI_MODEL spec; absent = AI_MODEL
+  temperature?: number;
+  maxOutputTokens?: number;
+  tools?: string[]; // default tools; absent = all loaded tools
+}
+
+// A loaded tool plugin as listed to clients
+export interface ToolInfo {
+  name: string;
+  description: string;
+  requiresApproval?: boolean; // each call waits for the user's approval
 }
 
+export interface UserAccount {
+  id: string;
+  username: string;
+  passwordHash: string; // scrypt, "salt:hash" hex
+  createdAt: number;
+}
+
+// Full-text search: a matching message (or session title) with a snippet;
+// highlights are [start, end) offsets into the snippet
+export interface SearchHit {
+  messageId: string | null; // null when the session title matched
+  kind: 'title' | 'text' | 'tool';
+  role?: Message['role'];
+  snippet: string;
+  highlights: Array<[number, number]>;
+  timestamp: number;
+}
+
+export interface SearchResult {
+  sessionId: string;
+  title: string;
+  score: number; // higher ranks first
+  hits: SearchHit[]; // best first
+}
+
+// Why a reply was not started: the session is streaming (and its queue is
+// off or full) or a per-user limit was hit
+export type LimitReason =
+  | 'session_busy'
+  | 'queue_full'
+  | 'concurrent_streams'
+  | 'rate_limit'
+  | 'daily_tokens';
+
+export interface LimitHit {
+  reason: LimitReason;
+  message: string; // shown to the user as is
+  retryAfterMs?: number;
+}
+
+// What happened to a sent message
+export type SendOutcome =
+  | { status: 'started'; message: Message; reply: Promise<void> }
+  | { status: 'queued'; id: string; reply: Promise<void> } // reply: once its turn ends
+  | { status: 'rejected'; hit: LimitHit };
+
+// A message waiting for the session's current reply to finish
+export interface QueuedSend {
+  id: string;
+  text: string;
+  attachments?: AttachmentInfo[];
+  queuedAt: number;
+}
+
+// A message that came in on one instance (`origin`) while another holds its
+// session; `requestId` names its HTTP stream there, if it has one
+export interface RelayedSend {
+  origin: string;
+  requestId?: string;
+  userId: string;
+  sessionId: string;
+  text: string;
+  attachments?: AttachmentInfo[];
+}
+
+export type RelayOutcome =
+  | { status: 'queued'; id: string }
+  | { status: 'rejected'; hit: LimitHit };
+
+export interface ToolProgress {
+  toolCallId: string;
+  name: string;
+  status: 'running' | 'done' | 'error';
+  startedAt: number;
+  endedAt?: number;
+}
+
+// Server-side snapshot of a reply that is still streaming
+export interface ActiveStream {
+  id: string; // ai message id
+  userId: string;
+  sessionId: string;
+  parentId: string; // user message being answered
+  text: string; // text streamed so far
+  seq: number; // seq of the last chunk folded into text
+  tools: ToolProgress[];
+  reasoning: string; // thinking streamed so far
+  sources: SourceRef[];
+  step: number; // model calls started
+  model: string; // the persona's model spec
+  startedAt: number;
+  firstTokenAt?: number; // first text delta
+  // As reported by the model on finish
+  tokens?: { prompt?: number; completion?: number; total?: number };
+  controller: AbortController; // cancels the model call and pending tools
+  sink?: StreamSink; // extra in-process receiver, e.g. an SSE response
+}
+
+// Receives a stream's events besides the Socket.IO rooms; returns whether
+// the event reached its client (used for delivery tracking)
+export type StreamSink = <E extends keyof ServerToClientEvents>(
+  event: E,
+  payload: Parameters<ServerToClientEvents[E]>[0]
+) => boolean;
+
 export interface ClientToServerEvents {
-  register: (payload: { userId: string }) => void;
-  ai_send: (payload: { sessionId: string; text: string }) => void;
-  session_create: (payload: { sessionId: string; title?: string }) => void;
+  register: () => void; // identity comes from the handshake token
+  // `attachments`: files uploaded through POST /api/attachments; text may then be empty
+  ai_send: (payload: {
+    sessionId: string;
+    text: string;
+    parentId?: string;
+    attachments?: AttachmentInfo[];
+  }) => void;
+  message_edit: (payload: { sessionId: string; messageId: string; text: string }) => void;
+  ai_regenerate: (payload: { sessionId: string; messageId: string }) => void;
+  ai_retry: (payload: { sessionId: string; messageId: string }) => void; // messageId: the failed reply
+  branch_switch: (payload: { sessionId: string; messageId: string }) => void;
+  // `ack` runs once the session exists; messages sent before then are dropped
+  session_create: (
+    payload: { sessionId: string; title?: string; personaId?: string },
+    ack?: () => void
+  ) => void;
   session_open: (payload: { sessionId: string }) => void;
+  ai_abort: (payload: { sessionId: string; id?: string }) => void;
+  ai_queue_cancel: (payload: { sessionId: string; id: string }) => void; // drop a queued message
+  session_rename: (payload: { sessionId: string; title: string }) => void;
+  session_delete: (payload: { sessionId: string }) => void; // also deletes its messages
+  session_archive: (payload: { sessionId: string; archived: boolean }) => void;
+  session_pin: (payload: { sessionId: string; pinned: boolean }) => void;
+  session_tools: (payload: { sessionId: string; tools: string[] }) => void;
+  // Switch the assistant persona; also resets the tool selection to its defaults
+  session_persona: (payload: { sessionId: string; personaId: string }) => void;
+  // Answer an approval request; `input` replaces the arguments when approving
+  tool_approval: (payload: {
+    sessionId: string;
+    toolCallId: string;
+    decision: 'approve' | 'deny';
+    input?: unknown;
+    reason?: string;
+  }) => void;
+  search: (payload: { query: string; limit?: number }) => void; // answered with search_results
 }
 
+// Events that carry a stored record (ai_complete, ai_error, ai_tool_call,
+// ai_tool_result, ai_tool_approval_request / _result) are sent to the user's
+// tabs with an acknowledgement callback as last argument; the record is marked
+// delivered once a client calls it. The callback is optional: StreamSinks get
+// the same events without one, as do notices that store nothing (retries,
+// refused answers, requests re-sent on open).
+type Ack = [] | [ack: () => void];
+
 export interface ServerToClientEvents {
   ai_started: (payload: { id: string; sessionId: string }) => void;
-  ai_chunk: (payload: { id: string; sessionId: string; delta: string }) => void;
-  ai_complete: (payload: { id: string; sessionId: string; text: string }) => void;
-  ai_tool_call: (payload: { sessionId: string; name: string }) => void;
-  ai_tool_result: (payload: { sessionId: string; name: string }) => void;
+  ai_chunk: (payload: { id: string; sessionId: string; delta: string; seq: number }) => void;
+  // Thinking; shares the `seq` counter with ai_chunk
+  ai_reasoning: (payload: { id: string; sessionId: string; delta: string; seq: number }) => void;
+  // A tool call's arguments (JSON text) as the model writes them, before
+  // ai_tool_call; an empty first delta announces the call
+  ai_tool_input: (payload: {
+    id: string;
+    sessionId: string;
+    toolCallId: string;
+    name: string;
+    delta: string;
+  }) => void;
+  ai_source: (payload: { id: string; sessionId: string; source: SourceRef }) => void;
+  // A model call within the reply began or ended (`step` counts from 1);
+  // tool rounds make a reply several steps
+  ai_step: (payload: {
+    id: string;
+    sessionId: string;
+    step: number;
+    phase: 'start' | 'finish';
+    finishReason?: string; // finish: 'stop', 'tool-calls', 'length', …
+  }) => void;
+  ai_resume: (payload: {
+    id: string;
+    sessionId: string;
+    text: string;
+    reasoning: string;
+    sources: SourceRef[];
+    seq: number;
+    tools: ToolProgress[];
+  }) => void;
+  ai_complete: (payload: {
+    id: string;
+    sessionId: string;
+    text: string;
+    status: MessageStatus;
+    usage?: MessageUsage;
+  }, ...ack: Ack) => void;
+  // The reply failed. With `retryInMs` the server tries again by itself (the
+  // same id streams on); otherwise it is final and stored as an error record.
+  ai_error: (payload: {
+    id: string;
+    sessionId: string;
+    kind: AIErrorKind;
+    message: string;
+    retryable: boolean;
+    text?: string;
+    retryInMs?: number;
+    usage?: MessageUsage; // final errors
+  }, ...ack: Ack) => void;
+  ai_tool_call: (payload: {
+    sessionId: string;
+    name: string;
+    toolCallId: string;
+    input: unknown;
+    startedAt: number;
+  }, ...ack: Ack) => void;
+  ai_tool_result: (payload: {
+    sessionId: string;
+    name: string;
+    toolCallId: string;
+    output?: unknown;
+    error?: string;
+    startedAt: number;
+    endedAt: number;
+  }, ...ack: Ack) => void;
+  // A tool call paused for approval; also re-sent on session_open while pending
+  ai_tool_approval_request: (payload: {
+    sessionId: string;
+    toolCallId: string;
+    name: string;
+    input: unknown;
+    requestedAt: number;
+  }, ...ack: Ack) => void;
+  // Decision made (from any tab), or `error` for an answer that was refused
+  ai_tool_approval_result: (payload: {
+    sessionId: string;
+    toolCallId: string;
+    name: string;
+    status: ApprovalStatus;
+    input?: unknown;
+    reason?: string;
+    error?: string;
+  }, ...ack: Ack) => void;
+  // The session's queued messages, oldest first (sent on every change)
+  ai_queue: (payload: { sessionId: string; items: QueuedSend[] }) => void;
+  ai_rejected: (payload: LimitHit & { sessionId: string; text?: string }) => void; // text: the unsent message
+  attachment_error: (payload: { sessionId: string; error: string }) => void; // ai_send with bad attachments
   session_list: (items: SessionItem[]) => void;
-  session_messages: (payload: { sessionId: string; messages: Message[] }) => void;
+  tool_list: (tools: ToolInfo[]) => void; // sent on register
+  persona_list: (payload: { personas: PersonaInfo[]; defaultId: string }) => void; // sent on register
+  search_results: (payload: { query: string; results: SearchResult[] }) => void;
+  session_messages: (payload: {
+    sessionId: string;
+    messages: Message[]; // active branch only
+    siblings: Record<string, string[]>; // messageId -> all its siblings
+  }) => void;
+  message_added: (message: Message) => void; // sent from another tab/device
+  // Sent on register: stored records no tab acknowledged yet (replies and
+  // tool traces that finished while the user was away), oldest first
+  undelivered_messages: (
+    payload: { messages: Message[] },
+    ack: () => void
+  ) => void;
 }
 
-export interface InterServerEvents {}
+// Relayed between instances: each one acts on the streams it owns
+export interface InterServerEvents {
+  stream_resume: (payload: {
+    socketId: string;
+    userId: string;
+    sessionId?: string;
+  }) => void;
+  stream_abort: (payload: { userId: string; sessionId: string; id?: string }) => void;
+  // An approval answer for a tool call waiting on another instance
+  tool_approval: (payload: {
+    userId: string;
+    sessionId: string;
+    toolCallId: string;
+    decision: 'approve' | 'deny';
+    input?: unknown;
+    reason?: string;
+    socketId?: string; // where to report a refused answer
+  }) => void;
+  // The instance holding the session queues the message and answers with
+  // the outcome; the others answer null
+  session_enqueue: (
+    send: RelayedSend,
+    answer: (outcome: RelayOutcome | null) => void
+  ) => void;
+  queue_cancel: (payload: { userId: string; sessionId: string; id?: string }) => void;
+  // A relayed message's reply, for the HTTP stream on its origin
+  send_event: (payload: {
+    origin: string;
+    requestId: string;
+    event: keyof ServerToClientEvents;
+    payload: unknown;
+  }) => void;
+  send_settled: (payload: { origin: string; requestId: string }) => void;
+}
 
 export interface SocketData {
-  userId?: string;
+  userId?: string; // set by the handshake auth middleware
+  sessionId?: string; // session currently open in this tab
 }
@@ -0,0 +1,112 @@
+import { ActiveStream, Message, MessageUsage, UsageTotals } from "./types";
+
+// ---------- Reply usage and cost ----------
+// Every AI reply records its tokens, timing and cost in Message.usage; the
+// per-session and per-user figures are sums over those records. Prices are
+// USD per million tokens, keyed by model spec; AI_PRICES (a JSON object of
+// the same shape) adds models or overrides the built-in list.
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+const BUILTIN_PRICES: Record<string, ModelPrice> = {
+  "openai:gpt-5": { input: 1.25, output: 10 },
+  "openai:gpt-5-mini": { input: 0.25, output: 2 },
+  "openai:gpt-5-nano": { input: 0.05, output: 0.4 },
+  "openai:gpt-4.1": { input: 2, output: 8 },
+  "openai:gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "openai:gpt-4o": { input: 2.5, output: 10 },
+  "openai:gpt-4o-mini": { input: 0.15, output: 0.6 },
+};
+
+function isPrice(value: unknown): value is ModelPrice {
+  const p = value as ModelPrice | undefined;
+  return !!p && typeof p.input === "number" && typeof p.output === "number";
+}
+
+function loadPrices(raw: string | undefined): Record<string, ModelPrice> {
+  const prices = { ...BUILTIN_PRICES };
+  if (!raw) return prices;
+  try {
+    for (const [model, price] of Object.entries(JSON.parse(raw))) {
+      if (isPrice(price)) {
+        prices[model] = price;
+      } else {
+        // eslint-disable-next-line no-console
+        console.warn(`AI_PRICES: invalid price for ${model}; skipped.`);
+      }
+    }
+  } catch {
+    // eslint-disable-next-line no-console
+    console.warn("AI_PRICES is not valid JSON; using built-in prices.");
+  }
+  return prices;
+}
+
+export const modelPrices = loadPrices(process.env.AI_PRICES);
+
+/** USD for the tokens of one reply, or undefined without a price. */
+export function costOf(
+  model: string,
+  promptTokens = 0,
+  completionTokens = 0
+): number | undefined {
+  const price = modelPrices[model];
+  if (!price) return undefined;
+  const usd = (promptTokens * price.input + completionTokens * price.output) / 1e6;
+  return Math.round(usd * 1e8) / 1e8; // float noise
+}
+
+/** The usage record of a reply that just ended. */
+export function replyUsage(stream: ActiveStream, endedAt = Date.now()): MessageUsage {
+  const { prompt, completion, total } = stream.tokens ?? {};
+  return {
+    model: stream.model,
+    promptTokens: prompt,
+    completionTokens: completion,
+    totalTokens: total,
+    costUsd:
+      prompt === undefined && completion === undefined
+        ? undefined
+        : costOf(stream.model, prompt, completion),
+    firstTokenMs:
+      stream.firstTokenAt === undefined
+        ? undefined
+        : stream.firstTokenAt - stream.startedAt,
+    durationMs: endedAt - stream.startedAt,
+    steps: stream.step || undefined,
+    tools: stream.tools.map((t) => ({
+      toolCallId: t.toolCallId,
+      name: t.name,
+      durationMs: (t.endedAt ?? endedAt) - t.startedAt,
+      ...(t.status === "error" ? { error: true } : {}),
+    })),
+  };
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return Math.round(values.reduce((a, b) => a + b, 0) / values.length);
+}
+
+/** Totals over the replies among `messages` (all branches). */
+export function sumUsage(messages: Message[]): UsageTotals {
+  const usages = messages.flatMap((m) => (m.usage ? [m.usage] : []));
+  const tools = usages.flatMap((u) => u.tools);
+  const sum = (pick: (u: MessageUsage) => number | undefined) =>
+    usages.reduce((n, u) => n + (pick(u) ?? 0), 0);
+  return {
+    replies: usages.length,
+    promptTokens: sum((u) => u.promptTokens),
+    completionTokens: sum((u) => u.completionTokens),
+    totalTokens: sum((u) => u.totalTokens),
+    costUsd: Math.round(sum((u) => u.costUsd) * 1e8) / 1e8,
+    avgFirstTokenMs: average(
+      usages.flatMap((u) => (u.firstTokenMs === undefined ? [] : [u.firstTokenMs]))
+    ),
+    avgDurationMs: average(usages.map((u) => u.durationMs)),
+    toolCalls: tools.length,
+    toolMs: tools.reduce((n, t) => n + t.durationMs, 0),
+  };
+}
@@ -0,0 +1,156 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import { login, nextEvent, setupSuite } from "./helpers";
+
+interface SseEvent {
+  event: string;
+  data: any;
+}
+
+// The events of a finished text/event-stream body
+function parseSse(body: string): SseEvent[] {
+  return body
+    .split("\n\n")
+    .filter((block) => block.trim())
+    .map((block) => {
+      const field = (name: string) =>
+        block
+          .split("\n")
+          .find((line) => line.startsWith(`${name}: `))
+          ?.slice(name.length + 2) ?? "";
+      return { event: field("event"), data: JSON.parse(field("data")) };
+    });
+}
+
+// The HTTP API against each store backend: sessions, paging and SSE replies
+for (const backend of ["json", "libsql"]) {
+  describe(`REST API and SSE (${backend} store)`, () => {
+    const suite = setupSuite({ STORE_BACKEND: backend });
+
+    const api = (url: string, init: RequestInit = {}) =>
+      fetch(`${suite.server.url}/api${url}`, {
+        ...init,
+        headers: {
+          Authorization: `Bearer ${suite.token}`,
+          "Content-Type": "application/json",
+        },
+      });
+
+    async function newSession(title?: string): Promise<string> {
+      const res = await api("/sessions", {
+        method: "POST",
+        body: JSON.stringify({ title }),
+      });
+      assert.equal(res.status, 201);
+      return (await res.json()).id;
+    }
+
+    async function send(sessionId: string, text: string): Promise<SseEvent[]> {
+      const res = await api(`/sessions/${sessionId}/messages`, {
+        method: "POST",
+        body: JSON.stringify({ text }),
+      });
+      assert.equal(res.status, 200);
+      assert.match(res.headers.get("content-type") ?? "", /text\/event-stream/);
+      return parseSse(await res.text());
+    }
+
+    test("creates, lists, reads and deletes sessions", async () => {
+      const { server } = suite;
+      const id = crypto.randomUUID();
+      const created = await api("/sessions", {
+        method: "POST",
+        body: JSON.stringify({ id, title: "接口测试" }),
+      });
+      assert.equal(created.status, 201);
+      // Another user's id is taken
+      const taken = await fetch(`${server.url}/api/sessions`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${await login(server, "bob")}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ id }),
+      });
+      assert.equal(taken.status, 409);
+
+      const listed = await (await api("/sessions")).json();
+      assert.ok(listed.some((s: any) => s.id === id && s.title === "接口测试"));
+      assert.equal((await (await api(`/sessions/${id}`)).json()).title, "接口测试");
+
+      assert.equal((await api(`/sessions/${id}`, { method: "DELETE" })).status, 204);
+      assert.equal((await api(`/sessions/${id}`)).status, 404);
+      assert.equal((await api(`/sessions/${id}`, { method: "DELETE" })).status, 404);
+    });
+
+    test("streams a reply as Server-Sent Events and to the user's sockets", async () => {
+      const { socket } = suite;
+      const sessionId = await newSession();
+      const onSocket = nextEvent(socket, "ai_complete", (p) => p.sessionId === sessionId);
+      const events = await send(sessionId, "你好");
+
+      const names = events.map((e) => e.event);
+      assert.equal(names[0], "message_added");
+      assert.equal(names[1], "ai_started");
+      assert.equal(names[names.length - 1], "ai_complete");
+      const complete = events[events.length - 1].data;
+      assert.equal(complete.text, "（离线模型）收到：你好");
+      assert.equal(complete.status, "complete");
+      assert.equal(
+        events
+          .filter((e) => e.event === "ai_chunk")
+          .map((e) => e.data.delta)
+          .join(""),
+        complete.text
+      );
+      assert.equal(events[0].data.message.content, "你好");
+      assert.equal((await onSocket).id, complete.id);
+    });
+
+    test("pages through the active branch, oldest first", async () => {
+      const sessionId = await newSession();
+      for (const text of ["一", "二", "三"]) await send(sessionId, text);
+
+      const page = async (query: string) =>
+        (await api(`/sessions/${sessionId}/messages?${query}`)).json();
+      const newest = await page("limit=4");
+      assert.deepEqual(
+        newest.messages.map((m: any) => m.message.content),
+        ["二", "（离线模型）收到：二", "三", "（离线模型）收到：三"]
+      );
+      assert.equal(newest.nextBefore, newest.messages[0].id);
+
+      const older = await page(`limit=4&before=${newest.nextBefore}`);
+      assert.deepEqual(
+        older.messages.map((m: any) => m.message.content),
+        ["一", "（离线模型）收到：一"]
+      );
+      assert.equal(older.nextBefore, null);
+    });
+
+    test("refuses empty messages", async () => {
+      const sessionId = await newSession();
+      const res = await api(`/sessions/${sessionId}/messages`, {
+        method: "POST",
+        body: JSON.stringify({ text: "   " }),
+      });
+      assert.equal(res.status, 400);
+      const { messages } = await (
+        await api(`/sessions/${sessionId}/messages`)
+      ).json();
+      assert.deepEqual(messages, []);
+    });
+
+    test("finds sent messages by search", async () => {
+      const sessionId = await newSession("搜索");
+      await send(sessionId, "zebra crossing");
+      const { results } = await (await api("/search?q=zebra")).json();
+      assert.deepEqual(
+        results.map((r: any) => r.sessionId),
+        [sessionId]
+      );
+      assert.ok(results[0].hits.some((h: any) => /zebra/.test(h.snippet)));
+    });
+  });
+}
@@ -0,0 +1,138 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Message } from "../src/types";
+import { collect, exchange, newSession, nextEvent, setupSuite } from "./helpers";
+
+interface Branch {
+  sessionId: string;
+  messages: Message[];
+  siblings: Record<string, string[]>;
+}
+
+const texts = (branch: Branch) =>
+  branch.messages
+    .filter((m) => m.message.type === "text")
+    .map((m) => m.message.content);
+
+// Edit, regenerate and branch switching: each answers with the session's
+// active branch (session_messages), which is what these tests read back.
+describe("branching conversations", () => {
+  const suite = setupSuite();
+
+  function openBranch(sessionId: string): Promise<Branch> {
+    const { socket } = suite;
+    const opened = nextEvent<Branch>(socket, "session_messages");
+    socket.emit("session_open", { sessionId });
+    return opened;
+  }
+
+  const userMessage = (branch: Branch, text: string) =>
+    branch.messages.find((m) => m.role === "user" && m.message.content === text)!;
+
+  test("edits a question into a new branch and switches back", async () => {
+    const { socket } = suite;
+    const sessionId = await newSession(socket);
+    const firstReply = await exchange(socket, sessionId, "第一问");
+    await exchange(socket, sessionId, "第二问");
+    const original = userMessage(await openBranch(sessionId), "第二问");
+
+    const complete = nextEvent(socket, "ai_complete");
+    socket.emit("message_edit", {
+      sessionId,
+      messageId: original.id,
+      text: " 第二问（改） ",
+    });
+    await complete;
+
+    const edited = await openBranch(sessionId);
+    assert.deepEqual(texts(edited), [
+      "第一问",
+      "（离线模型）收到：第一问",
+      "第二问（改）",
+      "（离线模型）收到：第二问（改）",
+    ]);
+    // The edit follows the same reply the original question did
+    const question = userMessage(edited, "第二问（改）");
+    assert.equal(question.parentId, firstReply);
+    assert.deepEqual(
+      [...edited.siblings[question.id]].sort(),
+      [original.id, question.id].sort()
+    );
+
+    // Switching to the original question shows its own answer
+    const switched = nextEvent<Branch>(socket, "session_messages");
+    socket.emit("branch_switch", { sessionId, messageId: original.id });
+    assert.deepEqual(texts(await switched), [
+      "第一问",
+      "（离线模型）收到：第一问",
+      "第二问",
+      "（离线模型）收到：第二问",
+    ]);
+    // ... and it stays active for the next open
+    assert.deepEqual(texts(await openBranch(sessionId)).slice(2), [
+      "第二问",
+      "（离线模型）收到：第二问",
+    ]);
+  });
+
+  test("regenerates a reply as a sibling of the first", async () => {
+    const { socket } = suite;
+    const sessionId = await newSession(socket);
+    const first = await exchange(socket, sessionId, "你好");
+    const question = userMessage(await openBranch(sessionId), "你好");
+
+    const complete = nextEvent(socket, "ai_complete");
+    socket.emit("ai_regenerate", { sessionId, messageId: first });
+    const second = (await complete).id;
+    assert.notEqual(second, first);
+
+    const branch = await openBranch(sessionId);
+    const reply = branch.messages[branch.messages.length - 1];
+    assert.equal(reply.id, second);
+    assert.equal(reply.parentId, question.id);
+    assert.deepEqual([...branch.siblings[second]].sort(), [first, second].sort());
+
+    const switched = nextEvent<Branch>(socket, "session_messages");
+    socket.emit("branch_switch", { sessionId, messageId: first });
+    const back = await switched;
+    assert.equal(back.messages[back.messages.length - 1].id, first);
+  });
+
+  test("starts one reply when regenerate is sent twice at once", async () => {
+    const { socket } = suite;
+    const sessionId = await newSession(socket);
+    const first = await exchange(socket, sessionId, "你好");
+
+    const started = collect(socket, "ai_started");
+    const rejected = nextEvent(socket, "ai_rejected");
+    const complete = nextEvent(socket, "ai_complete");
+    socket.emit("ai_regenerate", { sessionId, messageId: first });
+    socket.emit("ai_regenerate", { sessionId, messageId: first });
+    assert.equal((await rejected).reason, "session_busy");
+    const second = (await complete).id;
+    started.stop();
+    assert.equal(started.items.length, 1);
+
+    const branch = await openBranch(sessionId);
+    assert.deepEqual([...branch.siblings[second]].sort(), [first, second].sort());
+  });
+
+  test("rejects edits while the session is streaming", async () => {
+    const { socket } = suite;
+    const sessionId = await newSession(socket);
+    await exchange(socket, sessionId, "你好");
+    const question = userMessage(await openBranch(sessionId), "你好");
+
+    const started = nextEvent(socket, "ai_started");
+    socket.emit("ai_send", { sessionId, text: "讲个故事" });
+    const { id } = await started;
+
+    const rejected = nextEvent(socket, "ai_rejected");
+    socket.emit("message_edit", { sessionId, messageId: question.id, text: "改" });
+    assert.equal((await rejected).reason, "session_busy");
+
+    const complete = nextEvent(socket, "ai_complete");
+    socket.emit("ai_abort", { sessionId, id });
+    await complete;
+  });
+});
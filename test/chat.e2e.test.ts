@@ -0,0 +1,432 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import {
+  collect,
+  connect,
+  eventually,
+  login,
+  newSession,
+  nextEvent,
+  readStore,
+  setupSuite,
+} from "./helpers";
+
+// Drives a real Socket.IO client against the server running the scripted
+// model (fixtures/), then checks what the JSON store wrote to disk.
+describe("chat over Socket.IO", () => {
+  const suite = setupSuite({
+    TOOL_APPROVAL_REQUIRED: "suggest_play_spot",
+    AI_RETRY_BASE_MS: "50",
+  });
+
+  test("streams a reply and persists both messages", async () => {
+    const { socket, server } = suite;
+    const sessionId = await newSession(socket);
+    const chunks = collect(socket, "ai_chunk");
+    const started = nextEvent(socket, "ai_started");
+    const complete = nextEvent(socket, "ai_complete");
+    socket.emit("ai_send", { sessionId, text: "hello" });
+
+    const { id } = await started;
+    const done = await complete;
+    chunks.stop();
+    assert.equal(done.id, id);
+    assert.equal(done.status, "complete");
+    assert.equal(done.text, "（离线模型）收到：hello");
+    assert.equal(chunks.items.map((c) => c.delta).join(""), done.text);
+    assert.deepEqual(
+      chunks.items.map((c) => c.seq),
+      chunks.items.map((_, i) => i + 1)
+    );
+
+    const stored = await eventually(() => {
+      const msgs = readStore(server).messages.filter(
+        (m) => m.sessionId === sessionId
+      );
+      return msgs.length === 2 && msgs[1].delivered && msgs;
+    });
+    const [user, ai] = stored;
+    assert.equal(user.role, "user");
+    assert.deepEqual(user.message, { type: "text", content: "hello" });
+    assert.equal(ai.id, id);
+    assert.equal(ai.role, "ai");
+    assert.equal(ai.parentId, user.id);
+    assert.equal(ai.status, "complete");
+
+    // The titler has its own fixture
+    const session = await eventually(() =>
+      readStore(server).sessions.find(
+        (s) => s.id === sessionId && s.title === "离线测试会话"
+      )
+    );
+    assert.equal(session.activeLeafId, id);
+  });
+
+  test("runs tools, waits for approval and keeps the trace", async () => {
+    const { socket, server } = suite;
+    const sessionId = await newSession(socket);
+    const inputs = collect(socket, "ai_tool_input");
+    const results = collect(socket, "ai_tool_result");
+    const request = nextEvent(socket, "ai_tool_approval_request");
+    const complete = nextEvent(socket, "ai_complete", undefined, 20000);
+    socket.emit("ai_send", { sessionId, text: "今天适合去哪玩？" });
+
+    const pending = await request;
+    assert.equal(pending.name, "suggest_play_spot");
+    assert.deepEqual(pending.input, { temperature: 26 });
+    socket.emit("tool_approval", {
+      sessionId,
+      toolCallId: pending.toolCallId,
+      decision: "approve",
+      input: { temperature: 10 },
+    });
+
+    const done = await complete;
+    results.stop();
+    inputs.stop();
+    assert.match(done.text, /外滩/);
+    // Arguments stream before each call, under the call's id
+    const weather = inputs.items.filter(
+      (i) => i.toolCallId === results.items[0].toolCallId
+    );
+    assert.equal(weather[0].name, "get_weather");
+    assert.equal(weather.map((i) => i.delta).join(""), '{"location":"上海"}');
+    assert.deepEqual(
+      results.items.map((r) => r.name),
+      ["get_weather", "suggest_play_spot"]
+    );
+    assert.equal(results.items[1].output.recommendedFor, 10);
+
+    const stored = readStore(server).messages.filter(
+      (m) => m.sessionId === sessionId
+    );
+    const types = stored.map((m) => m.message.type);
+    assert.deepEqual(types.filter((t) => t === "tool_use").length, 2);
+    assert.deepEqual(types.filter((t) => t === "tool_result").length, 2);
+    const approvals = stored.filter((m) => m.message.type === "tool_approval");
+    assert.deepEqual(
+      approvals.map((m) => (m.message as any).status),
+      ["pending", "edited"]
+    );
+    for (const m of stored.filter((m) => m.role === "system")) {
+      assert.equal(m.replyId, done.id);
+    }
+  });
+
+  test("streams thinking, sources and steps and keeps them with the reply", async () => {
+    const { socket, server } = suite;
+    const sessionId = await newSession(socket);
+    const thinking = collect(socket, "ai_reasoning");
+    const chunks = collect(socket, "ai_chunk");
+    const sources = collect(socket, "ai_source");
+    const steps = collect(socket, "ai_step");
+    const complete = nextEvent(socket, "ai_complete");
+    socket.emit("ai_send", { sessionId, text: "查资料：example.com 是什么？" });
+    const done = await complete;
+    for (const c of [thinking, chunks, sources, steps]) c.stop();
+
+    const reasoning = thinking.items.map((r) => r.delta).join("");
+    assert.equal(reasoning, "用户想了解示例域名，引用官方说明即可。");
+    // Thinking and text share one sequence
+    assert.deepEqual(
+      [...thinking.items, ...chunks.items].map((c) => c.seq),
+      [...thinking.items, ...chunks.items].map((_, i) => i + 1)
+    );
+    assert.equal(sources.items.length, 1);
+    const { source } = sources.items[0];
+    assert.equal(source.kind, "url");
+    assert.equal(source.url, "https://www.iana.org/help/example-domains");
+    assert.deepEqual(
+      steps.items.map((s) => [s.step, s.phase, s.finishReason]),
+      [
+        [1, "start", undefined],
+        [1, "finish", "stop"],
+      ]
+    );
+
+    const ai = await eventually(() =>
+      readStore(server).messages.find((m) => m.id === done.id)
+    );
+    assert.equal(ai.reasoning, reasoning);
+    assert.deepEqual(ai.sources, [source]);
+    assert.equal(ai.usage?.steps, 1);
+    assert.equal(ai.message.content, done.text); // thinking stays out of the text
+
+    const opened = nextEvent(socket, "session_messages");
+    socket.emit("session_open", { sessionId });
+    const shown = (await opened).messages.find((m: any) => m.id === done.id);
+    assert.equal(shown.reasoning, reasoning);
+  });
+
+  test("stops a reply and saves the partial text as aborted", async () => {
+    const { socket, server } = suite;
+    const sessionId = await newSession(socket);
+    const started = nextEvent(socket, "ai_started");
+    const firstChunk = nextEvent(socket, "ai_chunk");
+    const complete = nextEvent(socket, "ai_complete");
+    socket.emit("ai_send", { sessionId, text: "讲个故事" });
+
+    const { id } = await started;
+    await firstChunk;
+    socket.emit("ai_abort", { sessionId, id });
+    const done = await complete;
+    assert.equal(done.status, "aborted");
+    assert.ok(done.text.startsWith("从前"));
+    assert.ok(!done.text.endsWith("有座山……"));
+
+    const ai = await eventually(() =>
+      readStore(server).messages.find((m) => m.id === id)
+    );
+    assert.equal(ai.status, "aborted");
+    assert.deepEqual(ai.message, { type: "text", content: done.text });
+  });
+
+  test("resumes a reply mid-stream on a tab that opens the session", async () => {
+    const { socket, server, token } = suite;
+    const sessionId = await newSession(socket);
+    const third = nextEvent(socket, "ai_chunk", (p) => p.seq === 3);
+    const complete = nextEvent(socket, "ai_complete");
+    socket.emit("ai_send", { sessionId, text: "讲个故事" });
+    await third;
+
+    const tab = await connect(server, token);
+    // Chunks can reach the tab between joining the room and the snapshot;
+    // those up to snapshot.seq are already in it
+    const chunks = collect(tab, "ai_chunk");
+    const resumed = nextEvent(tab, "ai_resume", (p) => p.sessionId === sessionId);
+    const tabComplete = nextEvent(tab, "ai_complete");
+    tab.emit("session_open", { sessionId });
+    const snapshot = await resumed;
+    const done = await complete;
+    await tabComplete;
+    chunks.stop();
+    tab.close();
+
+    assert.equal(snapshot.id, done.id);
+    assert.ok(snapshot.seq >= 3);
+    assert.ok(snapshot.text.length < done.text.length);
+    const later = chunks.items.filter((c) => c.seq > snapshot.seq);
+    assert.ok(later.length > 0);
+    assert.deepEqual(
+      later.map((c) => c.seq),
+      later.map((_, i) => snapshot.seq + i + 1)
+    );
+    assert.equal(snapshot.text + later.map((c) => c.delta).join(""), done.text);
+  });
+
+  test("answers as the session's persona", async () => {
+    const { socket, server } = suite;
+    const sessionId = await newSession(socket, { personaId: "translator" });
+    const complete = nextEvent(socket, "ai_complete");
+    socket.emit("ai_send", { sessionId, text: "你好，世界。" });
+    assert.equal((await complete).text, "Hello, world.");
+
+    // Switching persona drops the tool selection back to its defaults
+    socket.emit("session_tools", { sessionId, tools: ["get_weather"] });
+    await nextEvent(socket, "session_list", (items: any[]) =>
+      items.some((s) => s.id === sessionId && s.tools?.length === 1)
+    );
+    const switched = nextEvent(socket, "session_list", (items: any[]) =>
+      items.some((s) => s.id === sessionId && s.personaId === "writer")
+    );
+    socket.emit("session_persona", { sessionId, personaId: "writer" });
+    const session = (await switched).find((s: any) => s.id === sessionId);
+    assert.equal(session.tools, undefined);
+
+    await eventually(() =>
+      readStore(server).sessions.find(
+        (s) => s.id === sessionId && s.personaId === "writer"
+      )
+    );
+  });
+
+  test("sends attachments to the model and removes them with the session", async () => {
+    const { socket, server, token } = suite;
+    const api = (url: string, init: RequestInit = {}) =>
+      fetch(`${server.url}/api${url}`, {
+        ...init,
+        headers: { Authorization: `Bearer ${token}`, ...init.headers },
+      });
+    const rejected = await api("/attachments?name=a.exe", {
+      method: "POST",
+      headers: { "Content-Type": "application/x-msdownload" },
+      body: "MZ",
+    });
+    assert.equal(rejected.status, 400);
+
+    const uploaded = await api("/attachments?name=notes.txt", {
+      method: "POST",
+      headers: { "Content-Type": "text/plain" },
+      body: "附件内容",
+    });
+    assert.equal(uploaded.status, 201);
+    const file = await uploaded.json();
+    assert.equal(file.name, "notes.txt");
+    assert.match(file.id, /^[a-f0-9]{64}$/);
+
+    const sessionId = await newSession(socket);
+    // The bytes are checked again against the type claimed when sending
+    const refused = nextEvent(socket, "attachment_error");
+    socket.emit("ai_send", {
+      sessionId,
+      text: "看看",
+      attachments: [{ ...file, mimeType: "image/png" }],
+    });
+    assert.match((await refused).error, /附件不存在或类型不支持/);
+
+    const added = collect(socket, "message_added");
+    const complete = nextEvent(socket, "ai_complete");
+    socket.emit("ai_send", { sessionId, text: "看看", attachments: [file] });
+    const done = await complete;
+    added.stop();
+    // The scripted model echoes every text part of the prompt
+    assert.equal(done.text, "（离线模型）收到：看看[附件 notes.txt]\n附件内容");
+    const [text, attachment] = added.items;
+    assert.equal(attachment.parentId, text.id);
+    assert.deepEqual(attachment.message, {
+      type: "attachment",
+      content: "notes.txt",
+      attachmentId: file.id,
+      mimeType: "text/plain",
+      size: file.size,
+    });
+
+    const download = await api(`/attachments/${file.id}`);
+    assert.equal(await download.text(), "附件内容");
+
+    socket.emit("session_delete", { sessionId });
+    await eventually(async () =>
+      (await api(`/attachments/${file.id}`)).status === 404
+    );
+  });
+
+  test("retries transient failures, then stores the error for a manual retry", async () => {
+    const { socket, server } = suite;
+    const sessionId = await newSession(socket);
+    const errors = collect(socket, "ai_error");
+    const started = nextEvent(socket, "ai_started");
+    socket.emit("ai_send", { sessionId, text: "网络不稳" });
+    const { id } = await started;
+
+    await eventually(() => errors.items.some((e) => !e.retryInMs));
+    assert.deepEqual(
+      errors.items.map((e) => e.retryInMs),
+      [50, 100, undefined]
+    );
+    const final = errors.items[2];
+    assert.equal(final.id, id);
+    assert.equal(final.kind, "network");
+    assert.equal(final.retryable, true);
+
+    const failed = await eventually(() =>
+      readStore(server).messages.find((m) => m.id === id)
+    );
+    assert.equal(failed.message.type, "error");
+    assert.equal(failed.message.content, final.message);
+    const user = readStore(server).messages.find(
+      (m) => m.sessionId === sessionId && m.role === "user"
+    );
+    assert.equal(failed.parentId, user!.id);
+
+    const retried = nextEvent(socket, "ai_started");
+    socket.emit("ai_retry", { sessionId, messageId: id });
+    const again = await retried;
+    assert.notEqual(again.id, id);
+    await eventually(() => errors.items.length === 6);
+    errors.stop();
+  });
+
+  test("accounts tokens and latency per reply, per user and in /metrics", async () => {
+    const { socket, server, token } = suite;
+    const sessionId = await newSession(socket);
+    const complete = nextEvent(socket, "ai_complete");
+    socket.emit("ai_send", { sessionId, text: "用量" });
+    const { id, usage } = await complete;
+    assert.equal(usage.model, "scripted");
+    assert.ok(usage.promptTokens > 0 && usage.completionTokens > 0);
+    assert.equal(usage.totalTokens, usage.promptTokens + usage.completionTokens);
+    assert.equal(usage.costUsd, undefined); // no price for the scripted model
+    assert.ok(usage.firstTokenMs <= usage.durationMs);
+    const stored = await eventually(() =>
+      readStore(server).messages.find((m) => m.id === id)
+    );
+    assert.deepEqual(stored.usage, usage);
+
+    const api = (url: string) =>
+      fetch(`${server.url}/api${url}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      }).then((r) => r.json());
+    const session = await api(`/sessions/${sessionId}/usage`);
+    assert.equal(session.total.replies, 1);
+    assert.equal(session.total.totalTokens, usage.totalTokens);
+    assert.deepEqual(
+      session.replies.map((r: any) => [r.messageId, r.status]),
+      [[id, "complete"]]
+    );
+    const mine = await api("/usage");
+    const entry = mine.sessions.find((s: any) => s.sessionId === sessionId);
+    assert.equal(entry.totalTokens, usage.totalTokens);
+    assert.ok(mine.total.replies >= entry.replies);
+
+    const metrics = await (await fetch(`${server.url}/metrics`)).text();
+    assert.match(metrics, /^chat_replies_total\{model="scripted",status="complete"\} \d+$/m);
+    assert.match(metrics, /^chat_first_token_seconds_count\{model="scripted"\} \d+$/m);
+    assert.match(metrics, /^chat_ai_errors_total\{kind="network"\} \d+$/m);
+  });
+
+  test("pushes replies that finished offline on the next register", async () => {
+    const { server } = suite;
+    const bobToken = await login(server, "bob");
+    let bob = await connect(server, bobToken);
+    const sessionId = crypto.randomUUID();
+    bob.emit("session_create", { sessionId });
+    const started = nextEvent(bob, "ai_started");
+    bob.emit("ai_send", { sessionId, text: "讲个故事" });
+    const { id } = await started;
+    bob.close();
+
+    // Nobody acknowledged the reply, so it stays undelivered
+    const reply = await eventually(
+      () => readStore(server).messages.find((m) => m.id === id),
+      15000
+    );
+    assert.equal(reply.status, "complete");
+    assert.equal(reply.delivered, false);
+
+    bob = await connect(server, bobToken);
+    const missed = nextEvent(bob, "undelivered_messages");
+    bob.emit("register");
+    const { messages } = await missed;
+    assert.deepEqual(
+      messages.map((m: any) => m.id),
+      [id]
+    );
+    await eventually(
+      () => readStore(server).messages.find((m) => m.id === id)?.delivered
+    );
+    bob.close();
+  });
+
+  test("queues a message sent while the session is streaming", async () => {
+    const { socket, server } = suite;
+    const sessionId = await newSession(socket);
+    const completes = collect(socket, "ai_complete");
+    const queued = nextEvent(socket, "ai_queue", (p: any) => p.items.length === 1);
+    socket.emit("ai_send", { sessionId, text: "讲个故事" });
+    await nextEvent(socket, "ai_started");
+    socket.emit("ai_send", { sessionId, text: "再来一个" });
+    assert.equal((await queued).items[0].text, "再来一个");
+
+    await eventually(() => completes.items.length === 2, 15000);
+    completes.stop();
+    const texts = readStore(server)
+      .messages.filter(
+        (m) => m.sessionId === sessionId && m.message.type === "text"
+      )
+      .map((m) => m.message.content);
+    assert.equal(texts.length, 4);
+    assert.equal(texts[2], "再来一个");
+    assert.equal(texts[3], "（离线模型）收到：再来一个");
+  });
+});
@@ -0,0 +1,215 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Socket } from "socket.io-client";
+import {
+  collect,
+  connect,
+  login,
+  newSession,
+  nextEvent,
+  register,
+  startCluster,
+  TestCluster,
+} from "./helpers";
+
+// Two servers sharing one database and a cluster hub, with alice connected
+// to both: what one server starts, tabs on the other see and control.
+describe("two clustered servers", () => {
+  let cluster: TestCluster;
+  let token: string;
+  let a: Socket; // on the first server
+  let b: Socket; // on the second
+
+  before(async () => {
+    cluster = await startCluster(2, { TOOL_APPROVAL_REQUIRED: "suggest_play_spot" });
+    token = await login(cluster.servers[0], "alice");
+    a = await connect(cluster.servers[0], token);
+    b = await connect(cluster.servers[1], token);
+    await register(a);
+    await register(b);
+  });
+
+  after(async () => {
+    a?.close();
+    b?.close();
+    if (process.env.E2E_DEBUG) {
+      for (const server of cluster?.servers ?? []) console.log(server.log());
+    }
+    await cluster?.stop();
+  });
+
+  // A session created on the first server, open on both
+  async function sharedSession(): Promise<string> {
+    const sessionId = await newSession(a);
+    const opened = nextEvent(b, "session_messages", (p) => p.sessionId === sessionId);
+    b.emit("session_open", { sessionId });
+    await opened;
+    return sessionId;
+  }
+
+  // The story streams for about two seconds, long enough to act mid-stream
+  async function startStory(sessionId: string): Promise<string> {
+    const started = nextEvent(a, "ai_started", (p) => p.sessionId === sessionId);
+    a.emit("ai_send", { sessionId, text: "讲个故事" });
+    return (await started).id;
+  }
+
+  test("streams a reply to tabs on the other server", async () => {
+    const sessionId = await sharedSession();
+    const chunks = collect(b, "ai_chunk");
+    const complete = nextEvent(b, "ai_complete", (p) => p.sessionId === sessionId);
+    a.emit("ai_send", { sessionId, text: "你好" });
+    const done = await complete;
+    chunks.stop();
+
+    assert.equal(done.text, "（离线模型）收到：你好");
+    const deltas = chunks.items.filter((c) => c.sessionId === sessionId);
+    assert.equal(deltas.map((c) => c.delta).join(""), done.text);
+  });
+
+  test("resumes a reply on a tab that opens it on the other server", async () => {
+    const sessionId = await newSession(a);
+    const third = nextEvent(a, "ai_chunk", (p) => p.seq === 3);
+    const complete = nextEvent(a, "ai_complete", (p) => p.sessionId === sessionId);
+    a.emit("ai_send", { sessionId, text: "讲个故事" });
+    await third;
+
+    const tab = await connect(cluster.servers[1], token);
+    const chunks = collect(tab, "ai_chunk");
+    const resumed = nextEvent(tab, "ai_resume", (p) => p.sessionId === sessionId);
+    const tabComplete = nextEvent(tab, "ai_complete");
+    tab.emit("session_open", { sessionId });
+    const snapshot = await resumed;
+    const done = await complete;
+    await tabComplete;
+    chunks.stop();
+    tab.close();
+
+    assert.equal(snapshot.id, done.id);
+    assert.ok(snapshot.seq >= 3);
+    const later = chunks.items.filter((c) => c.seq > snapshot.seq);
+    assert.ok(later.length > 0);
+    assert.deepEqual(
+      later.map((c) => c.seq),
+      later.map((_, i) => snapshot.seq + i + 1)
+    );
+    assert.equal(snapshot.text + later.map((c) => c.delta).join(""), done.text);
+  });
+
+  test("stops a reply from the other server", async () => {
+    const sessionId = await sharedSession();
+    const id = await startStory(sessionId);
+    const complete = nextEvent(a, "ai_complete", (p) => p.sessionId === sessionId);
+    b.emit("ai_abort", { sessionId, id });
+    const done = await complete;
+    assert.equal(done.id, id);
+    assert.equal(done.status, "aborted");
+  });
+
+  test("takes a tool approval from the other server", async () => {
+    const sessionId = await sharedSession();
+    const request = nextEvent(b, "ai_tool_approval_request", (p) => p.sessionId === sessionId);
+    const complete = nextEvent(
+      a,
+      "ai_complete",
+      (p) => p.sessionId === sessionId,
+      20000
+    );
+    a.emit("ai_send", { sessionId, text: "今天适合去哪玩？" });
+
+    const pending = await request;
+    assert.equal(pending.name, "suggest_play_spot");
+    const result = nextEvent(a, "ai_tool_approval_result", (p) => p.sessionId === sessionId);
+    b.emit("tool_approval", {
+      sessionId,
+      toolCallId: pending.toolCallId,
+      decision: "approve",
+    });
+    assert.equal((await result).status, "approved");
+    assert.match((await complete).text, /外滩/);
+  });
+
+  test("queues a message sent to the other server behind the streaming reply", async () => {
+    const sessionId = await sharedSession();
+    const order: string[] = [];
+    const log = (event: string) => (p: { id: string; sessionId: string }) => {
+      if (p.sessionId === sessionId) order.push(`${event} ${p.id}`);
+    };
+    const onStarted = log("started");
+    const onComplete = log("complete");
+    a.on("ai_started", onStarted);
+    a.on("ai_complete", onComplete);
+    const first = await startStory(sessionId);
+
+    const queued = nextEvent(
+      b,
+      "ai_queue",
+      (p) => p.sessionId === sessionId && p.items.length > 0
+    );
+    b.emit("ai_send", { sessionId, text: "然后呢" });
+    assert.deepEqual(
+      (await queued).items.map((item: any) => item.text),
+      ["然后呢"]
+    );
+
+    // Edits wait for the session like anything else that starts a reply
+    const { messages } = await (
+      await fetch(`${cluster.servers[1].url}/api/sessions/${sessionId}/messages`, {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+    ).json();
+    const rejected = nextEvent(b, "ai_rejected", (p) => p.sessionId === sessionId);
+    b.emit("message_edit", { sessionId, messageId: messages[0].id, text: "改" });
+    assert.equal((await rejected).reason, "session_busy");
+
+    const second = await nextEvent(
+      a,
+      "ai_complete",
+      (p) => p.sessionId === sessionId && p.id !== first
+    );
+    a.off("ai_started", onStarted);
+    a.off("ai_complete", onComplete);
+    assert.equal(second.text, "（离线模型）收到：然后呢");
+    // One reply at a time, the queued one after the story
+    assert.deepEqual(order, [
+      `started ${first}`,
+      `complete ${first}`,
+      `started ${second.id}`,
+      `complete ${second.id}`,
+    ]);
+  });
+
+  test("streams an HTTP send queued on the other server once it runs", async () => {
+    const sessionId = await sharedSession();
+    const first = await startStory(sessionId);
+    const res = await fetch(
+      `${cluster.servers[1].url}/api/sessions/${sessionId}/messages`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ text: "接口排队" }),
+      }
+    );
+    assert.equal(res.status, 200);
+    const events = (await res.text())
+      .split("\n\n")
+      .filter((block) => block.trim())
+      .map((block) => block.split("\n")[0].replace(/^event: /, ""));
+    assert.equal(events[0], "ai_queued");
+    assert.deepEqual(events.slice(1, 3), ["message_added", "ai_started"]);
+    assert.equal(events[events.length - 1], "ai_complete");
+
+    // The story finished first
+    const messages = await (
+      await fetch(`${cluster.servers[0].url}/api/sessions/${sessionId}/messages`, {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+    ).json();
+    const texts = messages.messages.map((m: any) => m.message.content);
+    assert.equal(messages.messages[1].id, first);
+    assert.deepEqual(texts.slice(2), ["接口排队", "（离线模型）收到：接口排队"]);
+  });
+});
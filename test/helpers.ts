@@ -0,0 +1,318 @@
+import { ChildProcess, spawn } from "child_process";
+import crypto from "crypto";
+import fs from "fs";
+import net from "net";
+import os from "os";
+import path from "path";
+import { after, before } from "node:test";
+import { io, Socket } from "socket.io-client";
+import type { IpcClusterMessage } from "../src/cluster/ipc";
+import { createMemoryHub } from "../src/cluster/memory";
+import type { Message, SessionItem } from "../src/types";
+
+// ---------- End-to-end helpers ----------
+// Each suite runs the real server in a child process (tsx, scripted model)
+// with its own port and an empty data directory.
+const SERVER_ENTRY = path.resolve(__dirname, "..", "src", "server.ts");
+const TSX_CLI = require.resolve("tsx/cli");
+const START_TIMEOUT_MS = 30000;
+
+export interface TestServer {
+  url: string;
+  dataDir: string; // JSON store files
+  log: () => string; // stdout + stderr so far
+  stop: () => Promise<void>;
+}
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const srv = net.createServer();
+    srv.once("error", reject);
+    srv.listen(0, () => {
+      const { port } = srv.address() as net.AddressInfo;
+      srv.close(() => resolve(port));
+    });
+  });
+}
+
+type MemoryHub = ReturnType<typeof createMemoryHub>;
+
+// Relay a child's cluster traffic (CLUSTER_TRANSPORT=ipc) through the hub
+function joinHub(child: ChildProcess, hub: MemoryHub): void {
+  const transport = hub.transport();
+  child.on("message", (message: IpcClusterMessage) => {
+    if (message.cluster === "publish") {
+      void transport.publish(message.channel, message.payload);
+    } else if (message.cluster === "subscribe") {
+      const { channel } = message;
+      void transport.subscribe(channel, (payload) => {
+        if (!child.connected) return;
+        const deliver: IpcClusterMessage = { cluster: "deliver", channel, payload };
+        child.send(deliver);
+      });
+    }
+  });
+}
+
+/**
+ * Start the server with the scripted model; `env` overrides. With a `hub`
+ * it joins the hub's cluster.
+ */
+export async function startServer(
+  env: Record<string, string> = {},
+  hub?: MemoryHub
+): Promise<TestServer> {
+  const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "chat-e2e-"));
+  const port = await freePort();
+  const child: ChildProcess = spawn(process.execPath, [TSX_CLI, SERVER_ENTRY], {
+    cwd,
+    env: {
+      ...process.env,
+      PORT: String(port),
+      AUTH_SECRET: "e2e-secret",
+      AI_MODEL: "scripted",
+      STORE_BACKEND: "json",
+      ...(hub ? { CLUSTER_TRANSPORT: "ipc" } : {}),
+      ...env,
+    },
+    stdio: hub ? ["ignore", "pipe", "pipe", "ipc"] : ["ignore", "pipe", "pipe"],
+  });
+  if (hub) joinHub(child, hub);
+  let output = "";
+  child.stdout!.on("data", (d) => (output += d));
+  child.stderr!.on("data", (d) => (output += d));
+
+  await new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      child.kill();
+      reject(new Error(`server did not start:\n${output}`));
+    }, START_TIMEOUT_MS);
+    const onData = () => {
+      if (!output.includes("Server listening")) return;
+      clearTimeout(timer);
+      child.stdout!.off("data", onData);
+      resolve();
+    };
+    child.stdout!.on("data", onData);
+    child.once("exit", (code) => {
+      clearTimeout(timer);
+      reject(new Error(`server exited (${code}):\n${output}`));
+    });
+  });
+
+  return {
+    url: `http://localhost:${port}`,
+    dataDir: path.join(cwd, "data"),
+    log: () => output,
+    stop: async () => {
+      if (child.exitCode === null) {
+        const exited = new Promise((r) => child.once("exit", r));
+        child.kill();
+        await exited;
+      }
+      fs.rmSync(cwd, { recursive: true, force: true });
+    },
+  };
+}
+
+export interface TestCluster {
+  servers: TestServer[];
+  stop: () => Promise<void>;
+}
+
+/** Start `count` servers linked by a memory hub, sharing one libsql file. */
+export async function startCluster(
+  count: number,
+  env: Record<string, string> = {}
+): Promise<TestCluster> {
+  const shared = fs.mkdtempSync(path.join(os.tmpdir(), "chat-e2e-cluster-"));
+  const hub = createMemoryHub();
+  const servers: TestServer[] = [];
+  const stop = async () => {
+    for (const server of servers) await server.stop();
+    fs.rmSync(shared, { recursive: true, force: true });
+  };
+  try {
+    for (let i = 0; i < count; i++) {
+      const store = {
+        STORE_BACKEND: "libsql",
+        LIBSQL_URL: `file:${path.join(shared, "chat.db")}`,
+      };
+      servers.push(await startServer({ ...store, ...env }, hub));
+    }
+  } catch (err) {
+    await stop();
+    throw err;
+  }
+  return { servers, stop };
+}
+
+/** Log in (registering on first use) and return the token. */
+export async function login(
+  server: TestServer,
+  username: string,
+  password = "secret-123"
+): Promise<string> {
+  const res = await fetch(`${server.url}/auth/token`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username, password }),
+  });
+  if (!res.ok) throw new Error(`login failed: ${res.status}`);
+  return ((await res.json()) as { token: string }).token;
+}
+
+export async function connect(
+  server: TestServer,
+  token: string
+): Promise<Socket> {
+  const socket = io(server.url, {
+    auth: { token },
+    transports: ["websocket"],
+    reconnection: false,
+  });
+  await new Promise<void>((resolve, reject) => {
+    socket.once("connect", () => resolve());
+    socket.once("connect_error", reject);
+  });
+  return socket;
+}
+
+// Acknowledge like the web client does, so records get marked delivered
+function acknowledge(ack: unknown): void {
+  if (typeof ack === "function") ack();
+}
+
+/** The next `event` whose payload passes `match`. */
+export function nextEvent<T = any>(
+  socket: Socket,
+  event: string,
+  match: (payload: T) => boolean = () => true,
+  timeoutMs = 10000
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.off(event, onEvent);
+      reject(new Error(`timed out waiting for ${event}`));
+    }, timeoutMs);
+    function onEvent(payload: T, ack?: unknown) {
+      acknowledge(ack);
+      if (!match(payload)) return;
+      clearTimeout(timer);
+      socket.off(event, onEvent);
+      resolve(payload);
+    }
+    socket.on(event, onEvent);
+  });
+}
+
+/** Collect every `event` payload until stopped. */
+export function collect<T = any>(socket: Socket, event: string) {
+  const items: T[] = [];
+  const onEvent = (payload: T, ack?: unknown) => {
+    acknowledge(ack);
+    items.push(payload);
+  };
+  socket.on(event, onEvent);
+  return { items, stop: () => socket.off(event, onEvent) };
+}
+
+/** Register the socket and wait for its first session list. */
+export async function register(socket: Socket): Promise<void> {
+  const sessions = nextEvent(socket, "session_list");
+  socket.emit("register");
+  await sessions;
+}
+
+export interface Suite {
+  server: TestServer;
+  token: string;
+  socket: Socket; // registered
+}
+
+/**
+ * Start a server for the enclosing describe() and connect one user to it;
+ * the fields are set once its before() hook has run.
+ */
+export function setupSuite(
+  env: Record<string, string> = {},
+  username = "alice"
+): Suite {
+  const suite = {} as Suite;
+  before(async () => {
+    suite.server = await startServer(env);
+    suite.token = await login(suite.server, username);
+    suite.socket = await connect(suite.server, suite.token);
+    await register(suite.socket);
+  });
+  after(async () => {
+    suite.socket?.close();
+    if (process.env.E2E_DEBUG) console.log(suite.server?.log());
+    await suite.server?.stop();
+  });
+  return suite;
+}
+
+/** Create a session over the socket, open it and return its id. */
+export async function newSession(
+  socket: Socket,
+  options: { title?: string; personaId?: string } = {}
+): Promise<string> {
+  const sessionId = crypto.randomUUID();
+  const listed = nextEvent<SessionItem[]>(socket, "session_list", (items) =>
+    items.some((s) => s.id === sessionId)
+  );
+  socket.emit("session_create", { sessionId, ...options });
+  await listed;
+  const opened = nextEvent(socket, "session_messages");
+  socket.emit("session_open", { sessionId });
+  await opened;
+  return sessionId;
+}
+
+/** Send `text` and wait for the reply; resolves to the reply id. */
+export async function exchange(
+  socket: Socket,
+  sessionId: string,
+  text: string
+): Promise<string> {
+  const complete = nextEvent(socket, "ai_complete", (p) => p.sessionId === sessionId);
+  socket.emit("ai_send", { sessionId, text });
+  return (await complete).id;
+}
+
+function readJson<T>(file: string, fallback: T): T {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch {
+    return fallback; // not written yet, or mid-rename
+  }
+}
+
+/** What the JSON store has on disk. */
+export function readStore(server: TestServer): {
+  messages: Message[];
+  sessions: SessionItem[];
+} {
+  const file = (name: string) => path.join(server.dataDir, name);
+  return {
+    messages: readJson(file("messages.json"), { messages: [] }).messages,
+    sessions: readJson(file("sessions.json"), { sessions: [] }).sessions,
+  };
+}
+
+/** Poll `check` until it returns a value (writes land asynchronously). */
+type Falsy = undefined | null | false;
+
+export async function eventually<T>(
+  check: () => T | Falsy | Promise<T | Falsy>,
+  timeoutMs = 5000
+): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const value = await check();
+    if (value) return value;
+    if (Date.now() > deadline) throw new Error("condition not met in time");
+    await new Promise((r) => setTimeout(r, 50));
+  }
+}
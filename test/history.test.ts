@@ -0,0 +1,139 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { buildConversation } from "../src/history";
+import { Message, MessageBody } from "../src/types";
+
+let clock = 0;
+
+function msg(
+  role: Message["role"],
+  message: MessageBody,
+  extra: Partial<Message> = {}
+): Message {
+  clock += 1;
+  return {
+    id: `m${clock}`,
+    to: "u1",
+    sessionId: "s1",
+    timestamp: clock,
+    delivered: true,
+    role,
+    message,
+    ...extra,
+  };
+}
+
+const budget = { maxChars: 12000, maxTurns: 20 };
+
+describe("conversation history", () => {
+  test("replays tool calls and results as tool messages", () => {
+    const messages = [
+      msg("user", { type: "text", content: "北京天气？" }),
+      msg("ai", {
+        type: "tool_use",
+        content: "getWeather",
+        toolCallId: "c1",
+        input: { location: "北京" },
+      }),
+      // Both calls made in one step
+      msg("ai", {
+        type: "tool_use",
+        content: "suggestPlaySpot",
+        toolCallId: "c2",
+        input: {},
+      }),
+      msg("ai", {
+        type: "tool_approval",
+        content: "getWeather",
+        toolCallId: "c1",
+        input: { location: "上海" },
+        status: "edited",
+      }),
+      msg("ai", {
+        type: "tool_result",
+        content: "getWeather",
+        toolCallId: "c1",
+        output: { temperature: 20 },
+      }),
+      msg("ai", {
+        type: "tool_result",
+        content: "suggestPlaySpot",
+        toolCallId: "c2",
+        error: "boom",
+      }),
+      // Stopped before its result: left out
+      msg("ai", { type: "tool_use", content: "getWeather", toolCallId: "c3" }),
+      msg("ai", { type: "text", content: "上海 20 度" }),
+    ];
+
+    assert.deepEqual(buildConversation(messages, budget), [
+      { role: "user", content: "北京天气？" },
+      {
+        role: "assistant",
+        content: [
+          {
+            type: "tool-call",
+            toolCallId: "c1",
+            toolName: "getWeather",
+            input: { location: "上海" },
+          },
+          {
+            type: "tool-call",
+            toolCallId: "c2",
+            toolName: "suggestPlaySpot",
+            input: {},
+          },
+        ],
+      },
+      {
+        role: "tool",
+        content: [
+          {
+            type: "tool-result",
+            toolCallId: "c1",
+            toolName: "getWeather",
+            output: { type: "json", value: { temperature: 20 } },
+          },
+          {
+            type: "tool-result",
+            toolCallId: "c2",
+            toolName: "suggestPlaySpot",
+            output: { type: "error-text", value: "boom" },
+          },
+        ],
+      },
+      { role: "assistant", content: [{ type: "text", text: "上海 20 度" }] },
+    ]);
+  });
+
+  test("leaves out failed replies and their tool calls", () => {
+    const question = msg("user", { type: "text", content: "你好" });
+    const messages = [
+      question,
+      msg(
+        "ai",
+        { type: "tool_use", content: "getWeather", toolCallId: "c1", input: {} },
+        { replyId: "failed" }
+      ),
+      msg(
+        "ai",
+        { type: "tool_result", content: "getWeather", toolCallId: "c1" },
+        { replyId: "failed" }
+      ),
+      msg(
+        "ai",
+        {
+          type: "error",
+          content: "网络错误",
+          kind: "network",
+          retryable: true,
+        },
+        { id: "failed", parentId: question.id }
+      ),
+    ];
+
+    assert.deepEqual(buildConversation(messages, budget), [
+      { role: "user", content: "你好" },
+    ]);
+  });
+});
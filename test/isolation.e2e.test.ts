@@ -0,0 +1,169 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import { io, Socket } from "socket.io-client";
+import {
+  collect,
+  connect,
+  login,
+  newSession,
+  nextEvent,
+  register,
+  setupSuite,
+  TestServer,
+} from "./helpers";
+
+// An HS256 token like the server's, with any secret and claims
+function forgeToken(secret: string, claims: object): string {
+  const part = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+  const body = `${part({ alg: "HS256", typ: "JWT" })}.${part(claims)}`;
+  const sig = crypto.createHmac("sha256", secret).update(body).digest("base64url");
+  return `${body}.${sig}`;
+}
+
+// The handshake error, or null if the socket got in
+function connectError(server: TestServer, token: string): Promise<string | null> {
+  const socket = io(server.url, {
+    auth: { token },
+    transports: ["websocket"],
+    reconnection: false,
+  });
+  return new Promise((resolve) => {
+    socket.once("connect", () => {
+      socket.close();
+      resolve(null);
+    });
+    socket.once("connect_error", (err) => {
+      socket.close();
+      resolve(err.message);
+    });
+  });
+}
+
+// One user must never see another user's sessions, over sockets or HTTP
+describe("isolation between users", () => {
+  const suite = setupSuite(); // alice
+  let mallory: Socket;
+
+  before(async () => {
+    mallory = await connect(suite.server, await login(suite.server, "mallory"));
+    await register(mallory);
+  });
+
+  after(() => {
+    mallory?.close();
+  });
+
+  test("opening another user's session joins nothing", async () => {
+    const { socket: alice } = suite;
+    const sessionId = await newSession(alice);
+
+    const events = [
+      "session_messages",
+      "message_added",
+      "ai_chunk",
+      "ai_reasoning",
+      "ai_tool_input",
+      "ai_source",
+      "ai_step",
+      "ai_queue",
+      "ai_resume",
+    ].map((event) => collect(mallory, event));
+    mallory.emit("session_open", { sessionId });
+
+    const complete = nextEvent(alice, "ai_complete");
+    const chunk = nextEvent(alice, "ai_chunk");
+    alice.emit("ai_send", { sessionId, text: "查资料：example.com" });
+    await chunk;
+    await complete;
+    // Let anything misrouted arrive
+    await new Promise((r) => setTimeout(r, 200));
+    for (const c of events) c.stop();
+    assert.deepEqual(
+      events.flatMap((c) => c.items),
+      []
+    );
+  });
+
+  test("rejects missing, forged and expired tokens", async () => {
+    const { server } = suite;
+    const now = Math.floor(Date.now() / 1000);
+    const userId = crypto.randomUUID();
+    const tokens = {
+      missing: "",
+      garbage: "not-a-token",
+      forged: forgeToken("wrong-secret", { sub: userId, exp: now + 3600 }),
+      expired: forgeToken("e2e-secret", { sub: userId, exp: now - 60 }),
+    };
+    for (const [name, token] of Object.entries(tokens)) {
+      assert.equal(await connectError(server, token), "unauthorized", name);
+      const res = await fetch(`${server.url}/api/sessions`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      assert.equal(res.status, 401, name);
+    }
+    // The same claims signed with the right secret get in
+    const valid = forgeToken("e2e-secret", { sub: userId, exp: now + 3600 });
+    assert.equal(await connectError(server, valid), null);
+  });
+
+  test("HTTP answers another user's session with 404", async () => {
+    const { server, token: aliceToken } = suite;
+    const malloryToken = await login(server, "mallory");
+    const api = (token: string, path: string, init: RequestInit = {}) =>
+      fetch(`${server.url}/api${path}`, {
+        ...init,
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+      });
+    const created = await api(aliceToken, "/sessions", {
+      method: "POST",
+      body: JSON.stringify({ title: "私密" }),
+    });
+    const { id } = (await created.json()) as { id: string };
+
+    const attempts: [string, RequestInit?][] = [
+      [`/sessions/${id}`],
+      [`/sessions/${id}/messages`],
+      [`/sessions/${id}/usage`],
+      [`/sessions/${id}/export`],
+      [`/sessions/${id}/messages`, { method: "POST", body: '{"text":"hi"}' }],
+      [`/sessions/${id}/tools`, { method: "PUT", body: '{"tools":[]}' }],
+      [`/sessions/${id}`, { method: "DELETE" }],
+    ];
+    for (const [path, init] of attempts) {
+      const res = await api(malloryToken, path, init);
+      assert.equal(res.status, 404, `${init?.method ?? "GET"} ${path}`);
+    }
+    const listed = (await (await api(malloryToken, "/sessions")).json()) as {
+      id: string;
+    }[];
+    assert.ok(!listed.some((s) => s.id === id));
+
+    // Still there, untouched, for its owner
+    const own = await api(aliceToken, `/sessions/${id}`);
+    assert.equal(own.status, 200);
+    assert.equal(((await own.json()) as { title: string }).title, "私密");
+  });
+
+  test("socket changes to another user's session are ignored", async () => {
+    const { socket: alice } = suite;
+    const sessionId = await newSession(alice, { title: "alice 的会话" });
+
+    mallory.emit("session_rename", { sessionId, title: "被改名" });
+    mallory.emit("session_delete", { sessionId });
+    // Let any misapplied change land
+    await new Promise((r) => setTimeout(r, 200));
+    const own = nextEvent(mallory, "session_list");
+    mallory.emit("register");
+    assert.ok(!(await own).some((s: any) => s.id === sessionId));
+
+    const list = nextEvent(alice, "session_list");
+    alice.emit("register");
+    const session = (await list).find((s: any) => s.id === sessionId);
+    assert.equal(session?.title, "alice 的会话");
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  exchange,
+  newSession,
+  nextEvent,
+  readStore,
+  setupSuite,
+  Suite,
+} from "./helpers";
+
+// Send over HTTP; the response is read only when it is not a stream
+async function post(suite: Suite, sessionId: string, text: string) {
+  const res = await fetch(`${suite.server.url}/api/sessions/${sessionId}/messages`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${suite.token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ text }),
+  });
+  const body = res.status === 429 ? await res.json() : await res.text();
+  return { res, body };
+}
+
+// Send over the socket and return the rejection it gets
+async function rejected(suite: Suite, sessionId: string, text: string) {
+  const { socket } = suite;
+  const hit = nextEvent(socket, "ai_rejected", (p) => p.sessionId === sessionId);
+  socket.emit("ai_send", { sessionId, text });
+  return hit;
+}
+
+const sent = (suite: Suite, text: string) =>
+  readStore(suite.server).messages.some((m) => m.message.content === text);
+
+// Each limit in its own server, set low enough to hit from one test
+describe("per-user limits: concurrent streams", () => {
+  const suite = setupSuite({ LIMIT_CONCURRENT_STREAMS: "1" });
+
+  test("refuses a second reply while one streams", async () => {
+    const { socket } = suite;
+    const story = await newSession(socket);
+    const other = await newSession(socket);
+    const started = nextEvent(socket, "ai_started");
+    socket.emit("ai_send", { sessionId: story, text: "讲个故事" });
+    const { id } = await started;
+
+    const hit = await rejected(suite, other, "插队");
+    assert.equal(hit.reason, "concurrent_streams");
+    assert.equal(hit.text, "插队");
+    assert.equal(hit.retryAfterMs, undefined);
+
+    const { res, body } = await post(suite, other, "接口插队");
+    assert.equal(res.status, 429);
+    assert.equal(body.reason, "concurrent_streams");
+    assert.equal(res.headers.get("retry-after"), null);
+    assert.ok(!sent(suite, "插队") && !sent(suite, "接口插队"));
+
+    const complete = nextEvent(socket, "ai_complete");
+    socket.emit("ai_abort", { sessionId: story, id });
+    await complete;
+    // The slot is free again
+    await exchange(socket, other, "现在可以");
+  });
+});
+
+describe("per-user limits: requests per minute", () => {
+  const suite = setupSuite({ LIMIT_REQUESTS_PER_MINUTE: "2" });
+
+  test("refuses replies past the limit and says when to retry", async () => {
+    const { socket } = suite;
+    const sessionId = await newSession(socket);
+    await exchange(socket, sessionId, "一");
+    await exchange(socket, sessionId, "二");
+
+    const hit = await rejected(suite, sessionId, "三");
+    assert.equal(hit.reason, "rate_limit");
+    assert.ok(hit.retryAfterMs > 0 && hit.retryAfterMs <= 60000, `${hit.retryAfterMs}`);
+
+    const { res, body } = await post(suite, sessionId, "四");
+    assert.equal(res.status, 429);
+    assert.equal(body.reason, "rate_limit");
+    const retryAfter = Number(res.headers.get("retry-after"));
+    assert.ok(retryAfter >= 1 && retryAfter <= 60, `${retryAfter}`);
+    assert.equal(retryAfter, Math.ceil(body.retryAfterMs / 1000));
+    assert.ok(!sent(suite, "三") && !sent(suite, "四"));
+  });
+});
+
+describe("per-user limits: daily tokens", () => {
+  const suite = setupSuite({ LIMIT_DAILY_TOKENS: "1" });
+
+  test("refuses replies once the day's tokens are used", async () => {
+    const { socket } = suite;
+    const sessionId = await newSession(socket);
+    await exchange(socket, sessionId, "你好");
+
+    const hit = await rejected(suite, sessionId, "再来");
+    assert.equal(hit.reason, "daily_tokens");
+    // Until the next UTC midnight
+    const midnight = new Date();
+    midnight.setUTCHours(24, 0, 0, 0);
+    assert.ok(hit.retryAfterMs > 0);
+    assert.ok(Math.abs(Date.now() + hit.retryAfterMs - midnight.getTime()) < 5000);
+
+    const { res, body } = await post(suite, sessionId, "接口再来");
+    assert.equal(res.status, 429);
+    assert.equal(body.reason, "daily_tokens");
+    assert.equal(
+      Number(res.headers.get("retry-after")),
+      Math.ceil(body.retryAfterMs / 1000)
+    );
+    assert.ok(!sent(suite, "再来") && !sent(suite, "接口再来"));
+  });
+});
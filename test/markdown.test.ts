@@ -0,0 +1,146 @@
+import { before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+
+// ---------- A DOM just big enough for the renderer ----------
+// The renderer only creates elements and text nodes, sets a few properties
+// and appends or removes children; that is all this stands in for.
+class FakeNode {
+  parentNode: FakeNode | null = null;
+  childNodes: FakeNode[] = [];
+
+  constructor(
+    public nodeName: string,
+    private text = ""
+  ) {}
+
+  appendChild(child: FakeNode): FakeNode {
+    child.remove();
+    child.parentNode = this;
+    this.childNodes.push(child);
+    return child;
+  }
+
+  append(...children: FakeNode[]): void {
+    for (const child of children) this.appendChild(child);
+  }
+
+  remove(): void {
+    const siblings = this.parentNode?.childNodes;
+    if (siblings) siblings.splice(siblings.indexOf(this), 1);
+    this.parentNode = null;
+  }
+
+  get textContent(): string {
+    if (this.nodeName === "#text") return this.text;
+    return this.childNodes.map((c) => c.textContent).join("");
+  }
+
+  set textContent(value: string) {
+    for (const child of [...this.childNodes]) child.remove();
+    if (value) this.appendChild(new FakeNode("#text", value));
+  }
+}
+
+class FakeElement extends FakeNode {
+  className = "";
+  href?: string;
+  style: Record<string, string> = {};
+
+  addEventListener(): void {}
+}
+
+const fakeDocument = {
+  createElement: (tag: string) => new FakeElement(tag.toLowerCase()),
+  createTextNode: (text: string) => new FakeNode("#text", text),
+};
+
+// Every element under `root` with the tag name
+function all(root: FakeNode, tag: string): FakeElement[] {
+  return root.childNodes.flatMap((c) => [
+    ...(c.nodeName === tag ? [c as FakeElement] : []),
+    ...all(c, tag),
+  ]);
+}
+
+type Render = (target: FakeElement, text: string) => void;
+
+describe("markdown rendering", () => {
+  let render: Render;
+
+  before(async () => {
+    const globals = globalThis as any;
+    globals.window = {};
+    globals.document = fakeDocument;
+    await import("../src/public/markdown");
+    render = globals.window.chatMarkdown.render;
+  });
+
+  function rendered(text: string): FakeElement {
+    const target = new FakeElement("div");
+    render(target, text);
+    return target;
+  }
+
+  test("drops links with unsafe schemes but keeps their labels", () => {
+    const target = rendered(
+      [
+        "[点我](javascript:alert(1))",
+        "[大写](JAVASCRIPT:alert(1))",
+        "[空格]( javascript:alert(1))",
+        "[数据](data:text/html;base64,PHNjcmlwdD4=)",
+        "![图片](javascript:alert(1))",
+        "[正常](https://example.com/a)",
+      ].join("\n\n")
+    );
+    const links = all(target, "a");
+    assert.deepEqual(
+      links.map((a) => a.href),
+      ["https://example.com/a"]
+    );
+    assert.match(target.textContent, /点我大写空格数据图片正常/);
+    assert.equal(all(target, "img").length, 0);
+  });
+
+  test("shows raw HTML as text", () => {
+    const html = '<script>alert(1)</script> <img src=x onerror="alert(1)">';
+    const target = rendered(`${html}\n\n<a href="javascript:alert(1)">x</a>`);
+    for (const tag of ["script", "img", "a"]) {
+      assert.equal(all(target, tag).length, 0, tag);
+    }
+    assert.equal(
+      target.textContent,
+      `${html}<a href="javascript:alert(1)">x</a>`
+    );
+  });
+
+  test("renders an unclosed fence as an open code block while streaming", () => {
+    const target = new FakeElement("div");
+    render(target, "先看代码：\n\n```js\nconst a = 1;");
+    const intro = target.childNodes[0];
+    let blocks = all(target, "pre");
+    assert.equal(blocks.length, 1);
+    assert.equal(blocks[0].textContent, "const a = 1;");
+
+    // Text after the fence is still code until the fence closes
+    render(target, "先看代码：\n\n```js\nconst a = 1;\n\n**还在代码里**");
+    blocks = all(target, "pre");
+    assert.equal(blocks.length, 1);
+    assert.match(blocks[0].textContent, /\*\*还在代码里\*\*$/);
+    assert.equal(all(target, "strong").length, 0);
+
+    render(target, "先看代码：\n\n```js\nconst a = 1;\n```\n\n**完**");
+    assert.equal(all(target, "pre").length, 1);
+    assert.equal(all(target, "pre")[0].textContent, "const a = 1;");
+    assert.equal(all(target, "strong")[0].textContent, "完");
+    // The unchanged paragraph before the fence was kept, not rebuilt
+    assert.equal(target.childNodes[0], intro);
+  });
+
+  test("leaves unmatched inline marks literal", () => {
+    const target = rendered("**加粗 `代码 [链接](ht");
+    assert.equal(target.textContent, "**加粗 `代码 [链接](ht");
+    for (const tag of ["strong", "code", "a"]) {
+      assert.equal(all(target, tag).length, 0, tag);
+    }
+  });
+});
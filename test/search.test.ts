@@ -0,0 +1,44 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { createMemoryIndex, queryTerms, SearchDoc } from "../src/search";
+
+function doc(id: string, text: string): SearchDoc {
+  return {
+    id,
+    userId: "u1",
+    sessionId: "s1",
+    messageId: id,
+    kind: "text",
+    role: "ai",
+    text,
+    timestamp: 0,
+  };
+}
+
+describe("memory search index", () => {
+  test("weighs each term by its own document frequency", () => {
+    const index = createMemoryIndex();
+    // "common" is everywhere, "rare" in two documents only
+    for (let i = 0; i < 8; i++) index.put(doc(`filler-${i}`, "common words"));
+    index.put(doc("mostly-common", "common common common rare"));
+    index.put(doc("mostly-rare", "common rare rare rare"));
+
+    // Query order puts the frequent term first
+    const ranked = index.search("u1", queryTerms("common rare"), 10);
+    assert.deepEqual(
+      ranked.map((r) => r.doc.id),
+      ["mostly-rare", "mostly-common"]
+    );
+  });
+
+  test("only returns the user's own documents", () => {
+    const index = createMemoryIndex();
+    index.put(doc("mine", "hello world"));
+    index.put({ ...doc("theirs", "hello world"), userId: "u2" });
+    const ranked = index.search("u1", queryTerms("hello"), 10);
+    assert.deepEqual(
+      ranked.map((r) => r.doc.id),
+      ["mine"]
+    );
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import type { SessionItem } from "../src/types";
+import {
+  collect,
+  eventually,
+  exchange,
+  newSession,
+  nextEvent,
+  readStore,
+  setupSuite,
+} from "./helpers";
+
+// Session management over Socket.IO: every change is answered with a fresh
+// session_list, which is what these tests read back.
+describe("session management", () => {
+  const suite = setupSuite();
+
+  // The next session_list in which the session passes `match`
+  function listed(
+    sessionId: string,
+    match: (s: SessionItem) => boolean = () => true
+  ): Promise<SessionItem> {
+    return nextEvent<SessionItem[]>(suite.socket, "session_list", (items) =>
+      items.some((s) => s.id === sessionId && match(s))
+    ).then((items) => items.find((s) => s.id === sessionId)!);
+  }
+
+  test("titles a new session after its first exchange", async () => {
+    const { socket } = suite;
+    const sessionId = await newSession(socket);
+    const titled = listed(sessionId, (s) => s.title === "离线测试会话");
+    await exchange(socket, sessionId, "你好");
+    await titled;
+  });
+
+  test("renames, pins and archives", async () => {
+    const { socket } = suite;
+    const sessionId = await newSession(socket, { title: "旧标题" });
+
+    let renamed = listed(sessionId, (s) => s.title === "新标题");
+    socket.emit("session_rename", { sessionId, title: "  新标题  " });
+    await renamed;
+
+    // A blank title is ignored: the next change still shows the old one
+    socket.emit("session_rename", { sessionId, title: "   " });
+    const pinned = await (() => {
+      const next = listed(sessionId, (s) => !!s.pinned);
+      socket.emit("session_pin", { sessionId, pinned: true });
+      return next;
+    })();
+    assert.equal(pinned.title, "新标题");
+
+    const archived = listed(sessionId, (s) => !!s.archived);
+    socket.emit("session_archive", { sessionId, archived: true });
+    assert.equal((await archived).pinned, true);
+
+    const unarchived = listed(sessionId, (s) => !s.archived);
+    socket.emit("session_archive", { sessionId, archived: false });
+    await unarchived;
+    const unpinned = listed(sessionId, (s) => !s.pinned);
+    socket.emit("session_pin", { sessionId, pinned: false });
+    assert.equal((await unpinned).archived, false);
+
+    // Long titles are cut to 100 characters
+    renamed = listed(sessionId, (s) => s.title.startsWith("长"));
+    socket.emit("session_rename", { sessionId, title: "长".repeat(150) });
+    assert.equal((await renamed).title.length, 100);
+  });
+
+  test("ignores messages to a session that does not exist", async () => {
+    const { socket, server } = suite;
+    const sessionId = crypto.randomUUID();
+    const started = collect(socket, "ai_started");
+    socket.emit("ai_send", { sessionId, text: "你好" });
+    // The next session's reply shows the first send was handled, and dropped
+    await exchange(socket, await newSession(socket), "下一条");
+    started.stop();
+    assert.ok(started.items.every((s) => s.sessionId !== sessionId));
+    assert.ok(!readStore(server).messages.some((m) => m.sessionId === sessionId));
+    assert.ok(!readStore(server).sessions.some((s) => s.id === sessionId));
+  });
+
+  test("deletes a session with its messages", async () => {
+    const { socket, server } = suite;
+    const sessionId = await newSession(socket, { title: "待删除" });
+    await exchange(socket, sessionId, "你好");
+    assert.ok(readStore(server).messages.some((m) => m.sessionId === sessionId));
+
+    const gone = nextEvent<SessionItem[]>(
+      socket,
+      "session_list",
+      (items) => !items.some((s) => s.id === sessionId)
+    );
+    socket.emit("session_delete", { sessionId });
+    await gone;
+    await eventually(
+      () => !readStore(server).messages.some((m) => m.sessionId === sessionId)
+    );
+    assert.ok(!readStore(server).sessions.some((s) => s.id === sessionId));
+  });
+
+  test("deleting a session stops its reply without saving it", async () => {
+    const { socket, server } = suite;
+    const sessionId = await newSession(socket, { title: "讲故事" });
+    const chunk = nextEvent(socket, "ai_chunk", (p) => p.sessionId === sessionId);
+    socket.emit("ai_send", { sessionId, text: "讲个故事" });
+    await chunk;
+
+    const gone = nextEvent<SessionItem[]>(
+      socket,
+      "session_list",
+      (items) => !items.some((s) => s.id === sessionId)
+    );
+    socket.emit("session_delete", { sessionId });
+    await gone;
+    // The story would still be streaming; nothing more arrives or is saved
+    const late = collect(socket, "ai_chunk");
+    await new Promise((r) => setTimeout(r, 500));
+    late.stop();
+    assert.deepEqual(late.items, []);
+    assert.ok(!readStore(server).messages.some((m) => m.sessionId === sessionId));
+  });
+});
@@ -0,0 +1,184 @@
+import { before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { setupSuite } from "./helpers";
+
+// Export and import over the HTTP API, including what imports must refuse
+describe("session export / import", () => {
+  const suite = setupSuite();
+  let sessionId: string;
+
+  const api = (url: string, init: RequestInit = {}) =>
+    fetch(`${suite.server.url}/api${url}`, {
+      ...init,
+      headers: { Authorization: `Bearer ${suite.token}`, ...init.headers },
+    });
+  const importBody = (body: string, type = "application/json") =>
+    api("/import", {
+      method: "POST",
+      headers: { "Content-Type": type },
+      body,
+    });
+
+  before(async () => {
+    const created = await api("/sessions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ title: "导出测试" }),
+    });
+    sessionId = (await created.json()).id;
+    // The SSE response ends with the reply
+    const sent = await api(`/sessions/${sessionId}/messages`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ text: "hello" }),
+    });
+    await sent.text();
+  });
+
+  async function messagesOf(id: string): Promise<any[]> {
+    return (await (await api(`/sessions/${id}/messages`)).json()).messages;
+  }
+
+  test("round-trips JSON and JSONL into new sessions", async () => {
+    const original = await messagesOf(sessionId);
+    assert.equal(original.length, 2);
+
+    for (const format of ["json", "jsonl"]) {
+      const exported = await api(`/sessions/${sessionId}/export?format=${format}`);
+      assert.equal(exported.status, 200);
+      const imported = await importBody(
+        await exported.text(),
+        format === "json" ? "application/json" : "application/x-ndjson"
+      );
+      assert.equal(imported.status, 201);
+      const [session] = (await imported.json()).sessions;
+      assert.notEqual(session.id, sessionId);
+      assert.equal(session.title, "导出测试");
+
+      const copy = await messagesOf(session.id);
+      assert.deepEqual(
+        copy.map((m) => [m.role, m.message]),
+        original.map((m) => [m.role, m.message])
+      );
+      // Links point at the new ids
+      assert.equal(copy[1].parentId, copy[0].id);
+      assert.equal(session.activeLeafId, copy[1].id);
+    }
+  });
+
+  test("exports Markdown and rejects unknown formats", async () => {
+    const md = await (await api(`/sessions/${sessionId}/export?format=md`)).text();
+    assert.match(md, /^# 导出测试/);
+    assert.match(md, /## 助理\n\n（离线模型）收到：hello/);
+
+    for (const format of ["toString", "constructor", "xml"]) {
+      const res = await api(`/export?format=${format}`);
+      assert.equal(res.status, 400, format);
+    }
+  });
+
+  test("keeps only known session fields, with boolean flags", async () => {
+    const res = await importBody(
+      JSON.stringify({
+        session: {
+          id: "s1",
+          title: "标记",
+          createdAt: 1,
+          updatedAt: 1,
+          pinned: "yes",
+          archived: true,
+          tools: ["getWeather"],
+          personaId: "default",
+          owner: "mallory",
+        },
+        messages: [],
+      })
+    );
+    assert.equal(res.status, 201);
+    const [session] = (await res.json()).sessions;
+    assert.equal(session.pinned, false);
+    assert.equal(session.archived, true);
+    assert.deepEqual(session.tools, ["getWeather"]);
+    assert.equal(session.personaId, "default");
+    assert.ok(!("owner" in session));
+  });
+
+  test("refuses malformed records and says which one", async () => {
+    const session = {
+      id: "s1",
+      userId: "someone",
+      title: "坏数据",
+      createdAt: 1,
+      updatedAt: 1,
+    };
+    const good = {
+      id: "m1",
+      to: "someone",
+      sessionId: "s1",
+      timestamp: 1,
+      delivered: true,
+      role: "user",
+      message: { type: "text", content: "hi" },
+      parentId: null,
+    };
+    const cases: Array<[string, string, RegExp]> = [
+      [
+        JSON.stringify({ session, messages: [good, { ...good, id: "m2", message: undefined }] }),
+        "application/json",
+        /sessions\[0\]: messages\[1\]: message body missing/,
+      ],
+      [
+        JSON.stringify([{ session, messages: [{ ...good, role: "robot" }] }]),
+        "application/json",
+        /messages\[0\]: unknown role/,
+      ],
+      [
+        JSON.stringify({ session: { ...session, createdAt: "yesterday" }, messages: [] }),
+        "application/json",
+        /createdAt/,
+      ],
+      [
+        JSON.stringify({ session: { ...session, tools: "x" }, messages: [] }),
+        "application/json",
+        /session tools must be an array/,
+      ],
+      [
+        JSON.stringify({ session: { ...session, tools: ["getWeather", 1] }, messages: [] }),
+        "application/json",
+        /session tools must be an array/,
+      ],
+      [
+        JSON.stringify({ session: { ...session, personaId: {} }, messages: [] }),
+        "application/json",
+        /personaId/,
+      ],
+      [
+        JSON.stringify({ session: { ...session, activeLeafId: 7 }, messages: [] }),
+        "application/json",
+        /activeLeafId/,
+      ],
+      [
+        [
+          JSON.stringify({ type: "session", session }),
+          JSON.stringify({ type: "message", message: good }),
+          JSON.stringify({ type: "message", message: { ...good, id: "m3", timestamp: null } }),
+        ].join("\n"),
+        "application/x-ndjson",
+        /line 3: timestamp/,
+      ],
+      [
+        JSON.stringify({ type: "session", session }) + "\n{\"type\":\"mess",
+        "application/x-ndjson",
+        /line 2: invalid JSON/,
+      ],
+    ];
+    for (const [body, type, reason] of cases) {
+      const res = await importBody(body, type);
+      assert.equal(res.status, 400);
+      assert.match((await res.json()).error, reason);
+    }
+    // Nothing half-imported
+    const sessions = await (await api("/sessions")).json();
+    assert.ok(!sessions.some((s: any) => s.title === "坏数据"));
+  });
+});